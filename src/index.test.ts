@@ -0,0 +1,627 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import { DOMParser } from 'linkedom';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigFile, TrendingRepo, TrendSource } from './types';
+import {
+  buildFeed,
+  buildOpml,
+  buildSiteSources,
+  generateConfigSources,
+  processDevelopersSource,
+  processSource,
+  regenerateConfigSource,
+  resolveEffectiveConfig,
+  runPromptBatch,
+  resolveSourceConfig,
+  sourceOptionsFromConfig,
+} from './index';
+import { loadConfig } from './utils/helpers';
+import { parseTrendingRepos } from './utils/scraper';
+import { StubProvider } from './utils/summarizer';
+import { logger } from './utils/logger';
+
+// 設定ファイルの1ソースと global
+function configWith(source: TrendSource, global = {}): ConfigFile {
+  return { global, sources: [source] };
+}
+
+/**
+ * 解決後の設定を キー -> [値, 出所] の形にする
+ */
+function effective(
+  options: object,
+  source: TrendSource,
+  configFile: ConfigFile
+): Record<string, [unknown, string]> {
+  return Object.fromEntries(
+    resolveEffectiveConfig(options, source, configFile).map(
+      ({ key, value, origin }) => [key, [value, origin]]
+    )
+  );
+}
+
+describe('resolveSourceConfig', () => {
+  test('keeps empty and zero values instead of the defaults', () => {
+    const { config } = resolveSourceConfig({
+      language: '',
+      cacheExpiry: 0,
+      maxReadmeLength: 0,
+      minParsedItems: 0,
+    });
+
+    expect(config.language).toBe('');
+    expect(config.cacheExpiry).toBe(0);
+    expect(config.maxReadmeLength).toBe(0);
+    expect(config.minParsedItems).toBe(0);
+  });
+
+  test('uses the defaults for missing options', () => {
+    const { config, baseUrl } = resolveSourceConfig({});
+
+    expect(config.language).toBe('python');
+    expect(config.timeRange).toBe('daily');
+    expect(config.cacheExpiry).toBe(3600000);
+    expect(baseUrl).toBe('https://github.com/trending');
+  });
+});
+
+describe('resolveEffectiveConfig', () => {
+  test('reports the value and origin in CLI > source > global > default order', () => {
+    const source: TrendSource = {
+      name: 'All Languages Daily',
+      language: '',
+      cacheExpiry: 0,
+      outputPath: './rss/all.xml',
+    };
+    const configFile = configWith(source, {
+      language: 'rust',
+      cacheExpiry: 60000,
+      maxReadmeLength: 0,
+      timeRange: 'weekly',
+    });
+
+    const entries = effective({ timeRange: 'monthly' }, source, configFile);
+
+    expect(entries.language).toEqual(['', 'source']);
+    expect(entries.cacheExpiry).toEqual([0, 'source']);
+    expect(entries.maxReadmeLength).toEqual([0, 'global']);
+    expect(entries.timeRange).toEqual(['monthly', 'cli']);
+    expect(entries.readmeStrategy).toEqual(['truncate', 'default']);
+    expect(entries.outputs[1]).toBe('source');
+    expect(entries.baseUrl).toEqual(['https://github.com/trending', 'default']);
+  });
+
+  test('reports the default for options the config does not set', () => {
+    const source: TrendSource = { name: 'Python Daily' };
+    const entries = effective({}, source, configWith(source));
+
+    expect(entries.language).toEqual(['python', 'default']);
+    expect(entries.outputs[1]).toBe('default');
+  });
+
+  test('hides the GitHub token', () => {
+    const source: TrendSource = { name: 'Python Daily' };
+    const entries = effective(
+      { githubToken: 'secret' },
+      source,
+      configWith(source)
+    );
+
+    expect(entries.githubToken).toEqual(['***', 'cli']);
+  });
+});
+
+// 保存したトレンドページを返すスタブの GitHub
+describe('trending sources', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requested: string[] = [];
+
+  beforeAll(() => {
+    logger.configure({ logLevel: 'ERROR' });
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const { pathname, search } = new URL(request.url);
+        requested.push(pathname + search);
+        const fixture = pathname.startsWith('/trending/developers')
+          ? 'developers-2020.html'
+          : 'repositories-2020.html';
+        return new Response(
+          fs.readFileSync(
+            path.join(import.meta.dir, '__fixtures__/trending', fixture),
+            'utf8'
+          ),
+          { headers: { 'Content-Type': 'text/html' } }
+        );
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const baseUrl = () => `http://127.0.0.1:${server.port}/trending`;
+
+  test('fetches every language for an empty language', async () => {
+    requested = [];
+    const { repos, config } = await processSource({
+      language: '',
+      spokenLanguage: 'ja',
+      baseUrl: baseUrl(),
+      useCache: false,
+    });
+
+    expect(config.language).toBe('');
+    expect(requested).toEqual([
+      '/trending?since=daily&spoken_language_code=ja',
+    ]);
+    expect(repos).toHaveLength(3);
+  });
+
+  test('fetches the language page for a language', async () => {
+    requested = [];
+    await processSource({
+      language: 'python',
+      timeRange: 'weekly',
+      baseUrl: baseUrl(),
+      useCache: false,
+    });
+
+    expect(requested).toEqual(['/trending/python?since=weekly']);
+  });
+
+  test('regenerates only the requested source', async () => {
+    requested = [];
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'regenerate-'));
+    const configFile: ConfigFile = {
+      global: {
+        useCache: false,
+        readmeStrategy: 'none',
+        siteDir: path.join(dir, 'site'),
+      },
+      opml: { outputPath: path.join(dir, 'feeds.opml') },
+      sources: [
+        {
+          name: 'Python Daily',
+          language: 'python',
+          timeRange: 'daily',
+          baseUrl: baseUrl(),
+          outputPath: path.join(dir, 'python-daily.xml'),
+        },
+        {
+          name: 'Go Daily',
+          language: 'go',
+          timeRange: 'daily',
+          baseUrl: baseUrl(),
+          outputPath: path.join(dir, 'go-daily.xml'),
+        },
+      ],
+    };
+
+    try {
+      await regenerateConfigSource(configFile, 'Python Daily');
+
+      expect(requested).toEqual(['/trending/python?since=daily']);
+      expect(fs.readdirSync(dir)).toEqual(['python-daily.xml']);
+      expect(
+        fs.readFileSync(path.join(dir, 'python-daily.xml'), 'utf8')
+      ).toContain('microsoft/markitdown');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('keeps the cache settings of the config sources in a prompt batch', async () => {
+    requested = [];
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'));
+    const configPath = path.join(dir, 'config.json');
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        global: {
+          useCache: true,
+          cacheDir: path.join(dir, 'cache'),
+          readmeStrategy: 'none',
+          summary: { provider: 'stub' },
+        },
+        sources: [
+          {
+            name: 'Python Daily',
+            language: 'python',
+            timeRange: 'daily',
+            baseUrl: baseUrl(),
+            outputPath: path.join(dir, 'python-daily.xml'),
+          },
+          {
+            name: 'Go Daily',
+            language: 'go',
+            timeRange: 'daily',
+            baseUrl: baseUrl(),
+            useCache: false,
+            cacheDir: path.join(dir, 'go-cache'),
+            outputPath: path.join(dir, 'go-daily.xml'),
+          },
+        ],
+      })
+    );
+    const csvPath = path.join(dir, 'prompts.csv');
+    fs.writeFileSync(
+      csvPath,
+      'ref,prompt\nPython Daily,Summarize {{name}}\nGo Daily,Summarize {{name}}\n'
+    );
+
+    const log = spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      // 指定されなかった CLI オプションは undefined になる
+      const results = await runPromptBatch(
+        csvPath,
+        {
+          configPath,
+          useCache: undefined,
+          cacheDir: undefined,
+          cacheExpiry: undefined,
+          maxReadmeLength: 500,
+        },
+        path.join(dir, 'batch')
+      );
+
+      expect(results.map((result) => result.status)).toEqual([
+        'success',
+        'success',
+      ]);
+      expect(requested).toEqual([
+        '/trending/python?since=daily',
+        '/trending/go?since=daily',
+      ]);
+      expect(
+        fs
+          .readdirSync(path.join(dir, 'cache'))
+          .some((file) => file.startsWith('trending_'))
+      ).toBe(true);
+      expect(fs.existsSync(path.join(dir, 'go-cache'))).toBe(false);
+    } finally {
+      log.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('fetches the sources a composite source combines', async () => {
+    requested = [];
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'composite-'));
+    const source = (name: string, language: string): TrendSource => ({
+      name,
+      language,
+      timeRange: 'daily',
+      baseUrl: baseUrl(),
+      outputPath: path.join(dir, `${language}-daily.xml`),
+    });
+    const composite = (name: string, sources: string[]): TrendSource => ({
+      name,
+      kind: 'composite',
+      sources,
+      outputPath: path.join(dir, `${name}.xml`),
+    });
+    const configFile: ConfigFile = {
+      global: { useCache: false, readmeStrategy: 'none' },
+      sources: [
+        composite('all', ['Python Daily', 'Go Daily']),
+        source('Python Daily', 'python'),
+        source('Go Daily', 'go'),
+        source('Rust Daily', 'rust'),
+        composite('unknown', ['Python Daily', 'Java Daily']),
+        composite('self', ['Go Daily', 'self']),
+      ],
+    };
+
+    const error = spyOn(logger, 'error').mockImplementation(() => {});
+    try {
+      const { results, statuses } = await generateConfigSources(
+        configFile,
+        {},
+        ['all', 'unknown', 'self']
+      );
+
+      // 参照先のソースは取得するがフィードは書き出さない
+      expect(requested.sort()).toEqual([
+        '/trending/go?since=daily',
+        '/trending/python?since=daily',
+      ]);
+      expect(fs.readdirSync(dir)).toEqual(['all.xml']);
+      expect(
+        results[0].repos!.map((repo) => [repo.name, repo.sourceNames])
+      ).toEqual([
+        ['microsoft/markitdown', ['Python Daily', 'Go Daily']],
+        ['yt-dlp/yt-dlp', ['Python Daily', 'Go Daily']],
+        ['astral-sh/uv', ['Python Daily', 'Go Daily']],
+      ]);
+      expect(statuses).toEqual([
+        { source: 'all', status: 'updated', items: 3 },
+        {
+          source: 'unknown',
+          status: 'failed',
+          error: 'Source Java Daily failed',
+        },
+        { source: 'self', status: 'failed', error: 'Source self failed' },
+      ]);
+    } finally {
+      error.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('reports a failed regeneration', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'regenerate-'));
+    const configFile: ConfigFile = {
+      global: { useCache: false, readmeStrategy: 'none' },
+      sources: [
+        {
+          name: 'Python Daily',
+          language: 'python',
+          timeRange: 'daily',
+          baseUrl: baseUrl(),
+          outputPath: path.join(dir, 'python-daily.xml'),
+          debugDir: path.join(dir, 'failed-pages'),
+          minParsedItems: 5,
+        },
+      ],
+    };
+
+    const error = spyOn(logger, 'error').mockImplementation(() => {});
+    try {
+      await expect(
+        regenerateConfigSource(configFile, 'Python Daily')
+      ).rejects.toThrow('parsed 3 item(s), expected at least 5');
+    } finally {
+      error.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('fetches all developers for an empty language', async () => {
+    requested = [];
+    const { developers, config } = await processDevelopersSource({
+      kind: 'developers',
+      language: '',
+      baseUrl: baseUrl(),
+      useCache: false,
+    });
+
+    expect(config.language).toBe('');
+    expect(requested).toEqual(['/trending/developers?since=daily']);
+    expect(developers.map((developer) => developer.login)).toEqual([
+      'torvalds',
+      'karpathy',
+      'octocat',
+    ]);
+  });
+
+  test('fetches all developers for the developers source of the config', async () => {
+    requested = [];
+    const configFile = loadConfig(path.join(import.meta.dir, '../config.json'));
+    const source = configFile.sources.find(
+      (candidate) => candidate.name === 'Developers Daily'
+    )!;
+
+    await processDevelopersSource({
+      ...sourceOptionsFromConfig(source, configFile),
+      baseUrl: baseUrl(),
+      useCache: false,
+    });
+
+    expect(requested).toEqual(['/trending/developers?since=daily']);
+  });
+});
+
+describe('buildFeed', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    logger.configure({ logLevel: 'ERROR' });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'build-feed-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // 保存したトレンドページのリポジトリ (README は取得済みとする)
+  function fixtureRepos(): TrendingRepo[] {
+    return parseTrendingRepos(
+      fs.readFileSync(
+        path.join(
+          import.meta.dir,
+          '__fixtures__/trending/repositories-2020.html'
+        ),
+        'utf8'
+      )
+    ).map((repo) => ({ ...repo, readme: `# ${repo.repoName}\n\nReadme.` }));
+  }
+
+  function configFor(name: string, summary?: object) {
+    return resolveSourceConfig({
+      readmeStrategy: 'none',
+      cacheDir: path.join(dir, 'cache'),
+      outputPath: path.join(dir, `${name}.xml`),
+      formats: ['rss2', 'json1'],
+      summary: summary && { provider: 'stub', ...summary },
+    }).config;
+  }
+
+  test('adds the summaries of the stub provider to the feed items', async () => {
+    const { feed, repos, outputs } = await buildFeed(
+      fixtureRepos(),
+      configFor('summarized', { prompt: 'Summarize {{name}}' }),
+      'Python Daily'
+    );
+
+    expect(repos.map((repo) => repo.summary)).toEqual([
+      expect.stringMatching(
+        /^Stub summary \w{8}: Summarize microsoft\/markitdown$/
+      ),
+      expect.stringMatching(/^Stub summary \w{8}: Summarize yt-dlp\/yt-dlp$/),
+      expect.stringMatching(/^Stub summary \w{8}: Summarize astral-sh\/uv$/),
+    ]);
+    feed.items.forEach((item, index) => {
+      expect(item.content).toContain(
+        `<h2>Summary</h2><p>${repos[index].summary}</p>`
+      );
+    });
+
+    const json = JSON.parse(
+      fs.readFileSync(
+        outputs.find((output) => output.format === 'json1')!.path,
+        'utf8'
+      )
+    );
+    expect(json.items[0].content_html).toContain(repos[0].summary);
+  });
+
+  test('reuses the cached summaries', async () => {
+    const config = configFor('cached', { prompt: 'Summarize {{name}}' });
+    const first = await buildFeed(fixtureRepos(), config);
+
+    const complete = spyOn(StubProvider.prototype, 'complete');
+    try {
+      const second = await buildFeed(fixtureRepos(), config);
+
+      expect(complete).not.toHaveBeenCalled();
+      expect(second.repos.map((repo) => repo.summary)).toEqual(
+        first.repos.map((repo) => repo.summary)
+      );
+    } finally {
+      complete.mockRestore();
+    }
+  });
+
+  test('does not cache the summaries when the cache is off', async () => {
+    const config = {
+      ...configFor('uncached', { prompt: 'Summarize {{name}}' }),
+      useCache: false,
+      cacheDir: path.join(dir, 'uncached-cache'),
+    };
+    await buildFeed(fixtureRepos(), config);
+
+    const complete = spyOn(StubProvider.prototype, 'complete');
+    try {
+      await buildFeed(fixtureRepos(), config);
+
+      expect(complete).toHaveBeenCalledTimes(3);
+      expect(fs.existsSync(config.cacheDir)).toBe(false);
+    } finally {
+      complete.mockRestore();
+    }
+  });
+
+  test('keeps the written feeds when only the star counts change', async () => {
+    const config = configFor('stars');
+    const first = await buildFeed(fixtureRepos(), config);
+    const written = fs.readFileSync(config.outputs[0].path, 'utf8');
+
+    const starred = fixtureRepos().map((repo) => ({
+      ...repo,
+      stars: `${repo.starCount + 100}`,
+      todayStars: '5 stars today',
+    }));
+    const second = await buildFeed(starred, config);
+
+    expect(first.outputs.map((output) => output.written)).toEqual([true, true]);
+    expect(second.outputs.map((output) => output.written)).toEqual([
+      false,
+      false,
+    ]);
+    expect(fs.readFileSync(config.outputs[0].path, 'utf8')).toBe(written);
+
+    const reordered = await buildFeed(fixtureRepos().reverse(), config);
+    expect(reordered.outputs.map((output) => output.written)).toEqual([
+      true,
+      true,
+    ]);
+  });
+
+  test('does not summarize without a summary provider', async () => {
+    const { feed, repos } = await buildFeed(fixtureRepos(), configFor('plain'));
+
+    expect(repos.every((repo) => repo.summary === undefined)).toBe(true);
+    expect(feed.items[0].content).not.toContain('<h2>Summary</h2>');
+  });
+});
+
+describe('buildOpml', () => {
+  test('lists the empty-language sources under all languages', () => {
+    const configFile = loadConfig(path.join(import.meta.dir, '../config.json'));
+    const document = new DOMParser().parseFromString(
+      buildOpml(configFile, { groupBy: 'language' }),
+      'text/xml'
+    );
+    const outlines = (group: string) =>
+      Array.from(
+        document.querySelectorAll(`body > outline[text="${group}"] > outline`)
+      ).map((outline: Element) => ({
+        text: outline.getAttribute('text'),
+        description: outline.getAttribute('description'),
+        // linkedom の XML パーサーは属性の &amp; をデコードしない
+        htmlUrl: outline.getAttribute('htmlUrl')?.replace(/&amp;/g, '&'),
+      }));
+
+    expect(outlines('python').map((outline) => outline.text)).toEqual([
+      'Python Daily',
+    ]);
+    expect(outlines('All languages')).toEqual([
+      {
+        text: 'All Languages Daily',
+        description: 'The most popular GitHub repositories today.',
+        htmlUrl: 'https://github.com/trending?since=daily',
+      },
+      {
+        text: 'Japanese Daily',
+        description: 'The most popular GitHub repositories today (spoken: ja).',
+        htmlUrl:
+          'https://github.com/trending?since=daily&spoken_language_code=ja',
+      },
+      {
+        text: 'Developers Daily',
+        description: 'The most popular GitHub developers today.',
+        htmlUrl: 'https://github.com/trending/developers?since=daily',
+      },
+    ]);
+  });
+});
+
+describe('buildSiteSources', () => {
+  test('describes the empty-language sources without a language', () => {
+    const configFile = loadConfig(path.join(import.meta.dir, '../config.json'));
+    const descriptions = Object.fromEntries(
+      buildSiteSources(configFile, []).map((source) => [
+        source.name,
+        source.description,
+      ])
+    );
+
+    expect(descriptions['Python Daily']).toBe(
+      'The most popular GitHub repositories today for python.'
+    );
+    expect(descriptions['All Languages Daily']).toBe(
+      'The most popular GitHub repositories today.'
+    );
+    expect(descriptions['Japanese Daily']).toBe(
+      'The most popular GitHub repositories today (spoken: ja).'
+    );
+    expect(descriptions['Developers Daily']).toBe(
+      'The most popular GitHub developers today.'
+    );
+  });
+
+  test('includes the items of the generated sources only', () => {
+    const configFile = loadConfig(path.join(import.meta.dir, '../config.json'));
+    const sources = buildSiteSources(configFile, [
+      { source: 'Go Daily', repos: [] },
+    ]);
+
+    expect(
+      sources.filter((source) => source.repos || source.developers)
+    ).toMatchObject([{ name: 'Go Daily', repos: [] }]);
+  });
+});
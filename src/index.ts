@@ -2,26 +2,232 @@ import { Command } from 'commander';
 import fs from 'fs';
 import path from 'path';
 import pLimit from 'p-limit';
+import { Feed } from 'feed';
 
-import { TrendingRepo, CLIOptions } from './types';
+import {
+  TrendingRepo,
+  TrendingDeveloper,
+  CLIOptions,
+  FeedFormat,
+  FeedOutput,
+  TrendSource,
+  ConfigFile,
+  SummaryConfig,
+  BatchResult,
+  SourceStatus,
+  ReadmeInfo,
+  ReadmeOptions,
+  OpmlConfig,
+  CacheBackend,
+} from './types';
 import {
   fetchGitHubTrending,
-  fetchReadme,
+  fetchGitHubTrendingDevelopers,
+  resolveReadme,
+  fetchRepoMetadata,
+  DEFAULT_GITHUB_API_URL,
+  DEFAULT_README_CACHE_EXPIRY,
   summarizeReadme,
+  buildTrendingUrl,
+  isAllLanguages,
+  languageLabel,
 } from './utils/scraper';
-import { generateRSSFeed } from './utils/rss';
+import {
+  generateRSSFeed,
+  generateDevelopersFeed,
+  renderFeed,
+  resolveFeedOutputs,
+  extractFeedIdentity,
+} from './utils/rss';
 import {
   loadFromCache,
   saveToCache,
   generateCacheKey,
   loadPromptsFromCSV,
   loadConfig,
+  writeFileAtomic,
+  writeFileIfChanged,
+  toSlug,
 } from './utils/helpers';
+import { applyHistory, isNewEntry } from './utils/history';
+import { applyRules, needsMetadata } from './utils/rules';
+import { mergeTrendingRepos } from './utils/merge';
+import { renderReadmeHtml } from './utils/markdown';
+import {
+  createSummaryProvider,
+  resolvePromptTemplate,
+  summarizeRepo,
+} from './utils/summarizer';
+import {
+  configureCache,
+  getCacheStore,
+  formatBytes,
+  DEFAULT_CACHE_MAX_SIZE,
+} from './utils/cache';
+import { buildConfigSchema } from './utils/schema';
+import { writeSite, SiteSource } from './utils/site';
+import { generateOpml, OpmlSource } from './utils/opml';
+import {
+  configureScheduler,
+  DEFAULT_SCHEDULER_OPTIONS,
+} from './utils/scheduler';
+import { configureHttp, DEFAULT_HTTP_OPTIONS } from './utils/http';
 import { logger } from './utils/logger';
+import {
+  FeedServer,
+  DEFAULT_SERVER_HOST,
+  DEFAULT_SERVER_OUTPUT_DIR,
+  DEFAULT_SERVER_PORT,
+} from './server';
 
 // ソースオプションのインターフェイスを追加
 interface SourceOptions extends Partial<CLIOptions> {
   baseUrl?: string;
+  formats?: FeedFormat[]; // outputs を省略した場合に出力する形式
+}
+
+const DEFAULT_MAX_CONCURRENT_SOURCES = 3;
+
+// 実行中に取得した README (複数のソースに同じリポジトリが含まれる場合に共有する)
+const readmeRequests = new Map<string, Promise<ReadmeInfo>>();
+// README を共有している実行中の生成の数
+let sharedReadmeRuns = 0;
+
+/**
+ * 設定の値の出所 (優先順位の高い順)
+ */
+export type OptionOrigin = 'cli' | 'source' | 'global' | 'default';
+
+const ORIGIN_PRIORITY: OptionOrigin[] = ['cli', 'source', 'global', 'default'];
+
+/**
+ * 設定の解決に使うオプションの層
+ */
+interface OptionLayer {
+  origin: OptionOrigin;
+  options: SourceOptions;
+}
+
+/**
+ * オプションの層を優先順位の高い順に調べてソースの設定を決定し、各値の出所を記録する
+ * 値が undefined の場合だけ次の層またはデフォルト値を使う ("" や 0 はそのまま使う)
+ */
+function resolveLayeredSourceConfig(layers: OptionLayer[]) {
+  const origins: Record<string, OptionOrigin> = {};
+  const option = <K extends keyof SourceOptions>(key: K): SourceOptions[K] => {
+    const layer = layers.find(
+      (candidate) => candidate.options[key] !== undefined
+    );
+    origins[key] = layer?.origin ?? 'default';
+    return layer?.options[key];
+  };
+
+  const outputPath = option('outputPath') ?? './github-trending.xml';
+  const cacheDir = option('cacheDir') ?? './.cache';
+  const config: CLIOptions = {
+    kind: option('kind') ?? 'repositories',
+    sources: option('sources'),
+    language: option('language') ?? 'python', // "" はすべての言語
+    timeRange: option('timeRange') ?? 'daily',
+    spokenLanguage: option('spokenLanguage'),
+    outputPath,
+    cacheDir,
+    cacheExpiry: option('cacheExpiry') ?? 3600000, // 1時間
+    readmeCacheExpiry:
+      option('readmeCacheExpiry') ?? DEFAULT_README_CACHE_EXPIRY,
+    cacheBackend: option('cacheBackend') ?? 'file',
+    cacheMaxSize: option('cacheMaxSize') ?? DEFAULT_CACHE_MAX_SIZE,
+    useCache: option('useCache') ?? true,
+    maxReadmeLength: option('maxReadmeLength') ?? 20000,
+    readmeStrategy: option('readmeStrategy') ?? 'truncate',
+    stripBadges: option('stripBadges') ?? true,
+    logLevel: option('logLevel') ?? 'INFO',
+    enableFileLogging: option('enableFileLogging') ?? false,
+    parallel: option('parallel') ?? true,
+    maxParallelRequests: option('maxParallelRequests') ?? 5,
+    maxConcurrentSources:
+      option('maxConcurrentSources') ?? DEFAULT_MAX_CONCURRENT_SOURCES,
+    maxRequestsPerHost:
+      option('maxRequestsPerHost') ?? DEFAULT_SCHEDULER_OPTIONS.concurrency,
+    requestsPerSecond:
+      option('requestsPerSecond') ??
+      DEFAULT_SCHEDULER_OPTIONS.requestsPerSecond,
+    hostLimits: option('hostLimits'),
+    requestTimeout: option('requestTimeout') ?? DEFAULT_HTTP_OPTIONS.timeout,
+    maxRetries: option('maxRetries') ?? DEFAULT_HTTP_OPTIONS.maxRetries,
+    userAgent: option('userAgent') ?? DEFAULT_HTTP_OPTIONS.userAgent,
+    proxy: option('proxy'),
+    fixtureMode: option('fixtureMode') ?? DEFAULT_HTTP_OPTIONS.fixtureMode,
+    fixtureDir: option('fixtureDir') ?? DEFAULT_HTTP_OPTIONS.fixtureDir,
+    historyPath: option('historyPath'),
+    minParsedItems: option('minParsedItems') ?? 1,
+    debugDir: option('debugDir') ?? path.join(cacheDir, 'failed-pages'),
+    onlyNew: option('onlyNew') ?? false,
+    newWithinDays: option('newWithinDays') ?? 7,
+    rules: option('rules') ?? [],
+    outputs: resolveFeedOutputs(
+      outputPath,
+      option('outputs'),
+      option('formats'),
+      option('publicBaseUrl')
+    ),
+    publicBaseUrl: option('publicBaseUrl'),
+    siteDir: option('siteDir'),
+    githubApiUrl: option('githubApiUrl') ?? DEFAULT_GITHUB_API_URL,
+    githubToken: option('githubToken'),
+    summary: option('summary'),
+  };
+
+  // 出力先は複数のオプションから決まるため、最も優先される出所を使う
+  origins.outputs = ORIGIN_PRIORITY.find((origin) =>
+    ['outputs', 'outputPath', 'formats', 'publicBaseUrl'].some(
+      (key) => origins[key] === origin
+    )
+  )!;
+
+  // デフォルトURLまたはカスタムURL
+  const baseUrl = option('baseUrl') ?? 'https://github.com/trending';
+
+  return { config, baseUrl, origins };
+}
+
+/**
+ * オプションをデフォルト値とマージしてソースの設定を決定する
+ */
+export function resolveSourceConfig(options: SourceOptions) {
+  const { config, baseUrl } = resolveLayeredSourceConfig([
+    { origin: 'cli', options },
+  ]);
+  return { config, baseUrl };
+}
+
+/**
+ * キャッシュからデータを取得または新しくスクレイピングする
+ */
+async function loadOrFetch<T>(
+  cacheKey: string,
+  config: CLIOptions,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  if (!config.useCache) {
+    return fetcher();
+  }
+
+  const cached = loadFromCache<T>(
+    cacheKey,
+    config.cacheExpiry,
+    config.cacheDir
+  );
+  if (cached) {
+    logger.info(
+      `Using cached data for ${languageLabel(config.language)} (${config.timeRange})`
+    );
+    return cached;
+  }
+
+  const data = await fetcher();
+  saveToCache(cacheKey, data, config.cacheDir);
+  return data;
 }
 
 /**
@@ -29,63 +235,30 @@ interface SourceOptions extends Partial<CLIOptions> {
  */
 export async function processSource(options: SourceOptions = {}) {
   try {
-    // デフォルト値とマージ
-    const config: CLIOptions = {
-      language: options.language || 'python',
-      timeRange: options.timeRange || 'daily',
-      outputPath: options.outputPath || './github-trending.xml',
-      cacheDir: options.cacheDir || './.cache',
-      cacheExpiry: options.cacheExpiry || 3600000, // 1時間
-      useCache: options.useCache !== undefined ? options.useCache : true,
-      maxReadmeLength: options.maxReadmeLength || 20000,
-      logLevel: options.logLevel || 'INFO',
-      enableFileLogging: options.enableFileLogging || false,
-      parallel: options.parallel !== undefined ? options.parallel : true,
-      maxParallelRequests: options.maxParallelRequests || 5,
-    };
-
-    // デフォルトURLまたはカスタムURL
-    const baseUrl = options.baseUrl || 'https://github.com/trending';
+    const { config, baseUrl } = resolveSourceConfig(options);
 
     logger.info(
-      `Processing source with language=${config.language}, timeRange=${config.timeRange}, baseUrl=${baseUrl}`
+      `Processing source with language=${languageLabel(config.language)}, timeRange=${config.timeRange}, spokenLanguage=${config.spokenLanguage || 'any'}, baseUrl=${baseUrl}`
     );
 
     // キャッシュキーを生成
     const cacheKey = generateCacheKey(
       config.language,
       config.timeRange,
-      baseUrl
+      baseUrl,
+      config.kind,
+      config.spokenLanguage
     );
 
-    // キャッシュからデータを取得または新しくスクレイピング
-    let repos: TrendingRepo[];
-    if (config.useCache) {
-      const cachedRepos = loadFromCache(
-        cacheKey,
-        config.cacheExpiry,
-        config.cacheDir
-      );
-      if (cachedRepos) {
-        repos = cachedRepos;
-        logger.info(
-          `Using cached data for ${config.language} (${config.timeRange})`
-        );
-      } else {
-        repos = await fetchGitHubTrending(
-          config.timeRange,
-          config.language,
-          baseUrl
-        );
-        saveToCache(cacheKey, repos, config.cacheDir);
-      }
-    } else {
-      repos = await fetchGitHubTrending(
+    const repos = await loadOrFetch(cacheKey, config, () =>
+      fetchGitHubTrending(
         config.timeRange,
         config.language,
-        baseUrl
-      );
-    }
+        baseUrl,
+        config.spokenLanguage,
+        { minItems: config.minParsedItems, debugDir: config.debugDir }
+      )
+    );
 
     logger.info(`Fetched ${repos.length} trending repositories`);
 
@@ -97,248 +270,806 @@ export async function processSource(options: SourceOptions = {}) {
 }
 
 /**
- * メイン関数 - GitHub トレンドを取得して RSS に変換
+ * 単一のソースからトレンド開発者を取得する
  */
-export async function main(options: SourceOptions = {}) {
+export async function processDevelopersSource(options: SourceOptions = {}) {
   try {
-    // ログレベルを設定
-    process.env.LOG_LEVEL = options.logLevel || 'INFO';
-    process.env.ENABLE_FILE_LOGGING = String(
-      options.enableFileLogging || false
+    const { config, baseUrl } = resolveSourceConfig(options);
+
+    logger.info(
+      `Processing developers source with language=${languageLabel(config.language)}, timeRange=${config.timeRange}, baseUrl=${baseUrl}`
     );
 
-    // 設定ファイルが指定されている場合は読み込む
-    if (options.configPath) {
-      logger.info(`Loading config file: ${options.configPath}`);
-      const configFile = loadConfig(options.configPath);
+    // キャッシュキーを生成
+    const cacheKey = generateCacheKey(
+      config.language,
+      config.timeRange,
+      baseUrl,
+      config.kind
+    );
 
-      // 各ソースを処理
-      const results = [];
-      for (const source of configFile.sources) {
+    const developers = await loadOrFetch(cacheKey, config, () =>
+      fetchGitHubTrendingDevelopers(
+        config.timeRange,
+        config.language,
+        baseUrl,
+        {
+          minItems: config.minParsedItems,
+          debugDir: config.debugDir,
+        }
+      )
+    );
+
+    logger.info(`Fetched ${developers.length} trending developers`);
+
+    return { developers, config, baseUrl };
+  } catch (error: any) {
+    logger.error(`Error processing developers source: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * README を取得する
+ * 同じ実行の中で同じリポジトリの README を要求された場合は最初のリクエストの結果を使う
+ */
+function sharedReadme(
+  repoName: string,
+  readmeOptions: ReadmeOptions
+): Promise<ReadmeInfo> {
+  const key = `${readmeOptions.apiUrl} ${repoName}`;
+  let request = readmeRequests.get(key);
+  if (!request) {
+    request = resolveReadme(repoName, readmeOptions);
+    // 失敗した場合は次の要求で再取得する
+    request.catch(() => readmeRequests.delete(key));
+    readmeRequests.set(key, request);
+  } else {
+    logger.debug(`Reusing README for ${repoName} fetched by another source`);
+  }
+  return request;
+}
+
+/**
+ * README を共有して生成を実行する
+ * 共有している生成がすべて終わったら取得した README を破棄する
+ * (サーバーでは複数の生成が重なるため、他の生成の途中で破棄しない)
+ */
+async function withSharedReadmes<T>(run: () => Promise<T>): Promise<T> {
+  sharedReadmeRuns++;
+  try {
+    return await run();
+  } finally {
+    sharedReadmeRuns--;
+    if (sharedReadmeRuns === 0) {
+      readmeRequests.clear();
+    }
+  }
+}
+
+/**
+ * 各リポジトリのREADMEを並行または連続で取得する
+ */
+async function fetchReadmes(repos: TrendingRepo[], config: CLIOptions) {
+  const readmeOptions: ReadmeOptions = {
+    apiUrl: config.githubApiUrl,
+    token: config.githubToken,
+    cacheDir: config.useCache ? config.cacheDir : undefined,
+    cacheExpiry: config.readmeCacheExpiry,
+  };
+
+  if (config.parallel) {
+    logger.info(
+      `Fetching READMEs in parallel with max ${config.maxParallelRequests} concurrent requests`
+    );
+  } else {
+    logger.info('Fetching READMEs sequentially');
+  }
+  const limit = pLimit(config.parallel ? config.maxParallelRequests : 1);
+
+  const tasks = repos.map((repo, index) =>
+    limit(async () => {
+      try {
+        logger.info(
+          `[${index + 1}/${repos.length}] Fetching README for ${repo.name}`
+        );
+        const readme = await sharedReadme(repo.name, readmeOptions);
+        repo.readme = summarizeReadme(
+          readme.content,
+          config.maxReadmeLength,
+          config.readmeStrategy
+        );
+        repo.readmePath = readme.path;
+        repo.defaultBranch = readme.branch;
+        logger.info(
+          `[${index + 1}/${repos.length}] Successfully fetched README for ${
+            repo.name
+          }`
+        );
+      } catch (error) {
+        logger.warn(
+          `[${index + 1}/${repos.length}] Error fetching README for ${
+            repo.name
+          }: ${error}`
+        );
+        repo.readme = 'README could not be fetched due to an error.';
+      }
+
+      // README を HTML に変換する
+      repo.readmeHtml = renderReadmeHtml(repo.readme, {
+        repoName: repo.name,
+        branch: repo.defaultBranch,
+        readmePath: repo.readmePath,
+        stripBadges: config.stripBadges,
+      });
+    })
+  );
+
+  await Promise.all(tasks);
+}
+
+/**
+ * 各リポジトリの README を LLM で要約する
+ */
+async function summarizeRepos(
+  repos: TrendingRepo[],
+  config: CLIOptions,
+  sourceName?: string
+) {
+  if (!config.summary) {
+    return;
+  }
+
+  const provider = createSummaryProvider(config.summary);
+  const template = resolvePromptTemplate(config.summary, sourceName);
+  logger.info(`Summarizing ${repos.length} repositories with ${provider.id}`);
+  const limit = pLimit(config.parallel ? config.maxParallelRequests : 1);
+
+  await Promise.all(
+    repos.map((repo) =>
+      limit(async () => {
         try {
-          logger.info(`Processing source: ${source.name}`);
-          const sourceOptions: SourceOptions = {
-            language: source.language,
-            timeRange: source.timeRange,
-            outputPath: source.outputPath,
-            baseUrl: source.baseUrl,
-            ...configFile.global,
-            ...options, // CLIオプションは設定ファイルより優先
-          };
+          repo.summary = await summarizeRepo(
+            repo,
+            provider,
+            template,
+            config.useCache ? config.cacheDir : undefined
+          );
+        } catch (error) {
+          logger.warn(`Error summarizing ${repo.name}: ${error}`);
+        }
+      })
+    )
+  );
+}
 
-          const { repos, config, baseUrl } = await processSource(sourceOptions);
+/**
+ * ルールで参照するライセンスとトピックを GitHub API から取得する
+ */
+async function fetchMetadata(repos: TrendingRepo[], config: CLIOptions) {
+  logger.info(`Fetching metadata for ${repos.length} repositories`);
+  const limit = pLimit(config.parallel ? config.maxParallelRequests : 1);
 
-          // READMEを並行または連続で取得
-          if (config.parallel) {
-            logger.info(
-              `Fetching READMEs in parallel with max ${config.maxParallelRequests} concurrent requests`
-            );
-            const limit = pLimit(config.maxParallelRequests);
-
-            const tasks = repos.map((repo, index) =>
-              limit(async () => {
-                try {
-                  logger.info(
-                    `[${index + 1}/${repos.length}] Fetching README for ${
-                      repo.name
-                    }`
-                  );
-                  const readme = await fetchReadme(repo.name);
-                  repos[index].readme = summarizeReadme(
-                    readme,
-                    config.maxReadmeLength
-                  );
-                  logger.info(
-                    `[${index + 1}/${
-                      repos.length
-                    }] Successfully fetched README for ${repo.name}`
-                  );
-                } catch (error) {
-                  logger.warn(
-                    `[${index + 1}/${repos.length}] Error fetching README for ${
-                      repo.name
-                    }: ${error}`
-                  );
-                  repos[index].readme =
-                    'README could not be fetched due to an error.';
-                }
-              })
-            );
+  await Promise.all(
+    repos.map((repo) =>
+      limit(async () => {
+        try {
+          const { license, topics } = await fetchRepoMetadata(
+            repo.name,
+            config.githubApiUrl,
+            config.githubToken
+          );
+          repo.license = license;
+          repo.topics = topics;
+        } catch (error) {
+          logger.warn(`Error fetching metadata for ${repo.name}: ${error}`);
+        }
+      })
+    )
+  );
+}
 
-            await Promise.all(tasks);
-          } else {
-            logger.info('Fetching READMEs sequentially');
-            for (let i = 0; i < repos.length; i++) {
-              try {
-                logger.info(
-                  `[${i + 1}/${repos.length}] Fetching README for ${
-                    repos[i].name
-                  }`
-                );
-                const readme = await fetchReadme(repos[i].name);
-                repos[i].readme = summarizeReadme(
-                  readme,
-                  config.maxReadmeLength
-                );
-                logger.info(
-                  `[${i + 1}/${repos.length}] Successfully fetched README for ${
-                    repos[i].name
-                  }`
-                );
-              } catch (error) {
-                logger.warn(
-                  `[${i + 1}/${repos.length}] Error fetching README for ${
-                    repos[i].name
-                  }: ${error}`
-                );
-                repos[i].readme =
-                  'README could not be fetched due to an error.';
-              }
-            }
-          }
+/**
+ * ルールでリポジトリを絞り込み、スコア順に並べ替える
+ */
+async function filterByRules(repos: TrendingRepo[], config: CLIOptions) {
+  if (config.rules.length === 0) {
+    return repos;
+  }
+  if (needsMetadata(config.rules)) {
+    await fetchMetadata(repos, config);
+  }
+  return applyRules(repos, config.rules);
+}
 
-          // タイトルと説明を設定
-          const timeRangeText =
-            config.timeRange === 'daily'
-              ? 'Today'
-              : config.timeRange === 'weekly'
-                ? 'This Week'
-                : 'This Month';
-          const languageText = config.language ? ` for ${config.language}` : '';
-          const title = `GitHub Trending ${timeRangeText}${languageText} - ${source.name}`;
-          const description = `The most popular GitHub repositories ${timeRangeText.toLowerCase()}${languageText}.`;
-
-          // RSS フィードを生成
-          const feed = generateRSSFeed(repos, title, description);
-
-          // 出力ディレクトリが存在しない場合は作成
-          const outputDir = path.dirname(config.outputPath);
-          if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
-            logger.info(`Created output directory: ${outputDir}`);
-          }
+/**
+ * 取得済みのリポジトリからフィードを生成してファイルに保存する
+ */
+export async function buildFeed(
+  repos: TrendingRepo[],
+  config: CLIOptions,
+  sourceName?: string
+) {
+  // トレンド履歴を記録し、各リポジトリに付与する
+  const now = new Date();
+  if (config.historyPath) {
+    applyHistory(
+      config.historyPath,
+      sourceName || `${languageLabel(config.language)} ${config.timeRange}`,
+      repos,
+      config.newWithinDays,
+      now
+    );
+  }
+
+  // 新着のみモードでは直近に掲載済みのリポジトリを除外する
+  if (config.onlyNew) {
+    if (config.historyPath) {
+      const total = repos.length;
+      repos = repos.filter(
+        (repo) => !repo.history || isNewEntry(repo.history, now)
+      );
+      logger.info(
+        `Only new entries: kept ${repos.length} of ${total} repositories not seen in the last ${config.newWithinDays} days`
+      );
+    } else {
+      logger.warn('onlyNew requires historyPath; publishing all repositories');
+    }
+  }
+
+  repos = await filterByRules(repos, config);
+
+  if (config.readmeStrategy !== 'none') {
+    await fetchReadmes(repos, config);
+  }
+
+  await summarizeRepos(repos, config, sourceName);
+
+  const { title, description } = describeFeed(
+    config,
+    'GitHub repositories',
+    sourceName
+  );
+
+  // フィードを生成
+  const feed = generateRSSFeed(repos, title, description, config.outputs);
+  const outputs = writeFeedOutputs(feed, config.outputs);
+
+  return { feed, repos, outputs };
+}
+
+/**
+ * 取得済みの開発者からフィードを生成してファイルに保存する
+ */
+function buildDevelopersFeed(
+  developers: TrendingDeveloper[],
+  config: CLIOptions,
+  sourceName?: string
+) {
+  const { title, description } = describeFeed(
+    config,
+    'GitHub developers',
+    sourceName,
+    'Developers '
+  );
+
+  // フィードを生成
+  const feed = generateDevelopersFeed(
+    developers,
+    title,
+    description,
+    config.outputs
+  );
+  const outputs = writeFeedOutputs(feed, config.outputs);
+
+  return { feed, developers, outputs };
+}
+
+/**
+ * フィードのタイトルと説明を決定する
+ */
+function describeFeed(
+  config: CLIOptions,
+  subject: string,
+  sourceName?: string,
+  kindText: string = ''
+) {
+  if (config.kind === 'composite') {
+    return {
+      title: `GitHub Trending - ${sourceName}`,
+      description: `The most popular ${subject} from ${(
+        config.sources || []
+      ).join(', ')}.`,
+    };
+  }
+
+  const timeRangeText =
+    config.timeRange === 'daily'
+      ? 'Today'
+      : config.timeRange === 'weekly'
+        ? 'This Week'
+        : 'This Month';
+  const languageText =
+    (isAllLanguages(config.language) ? '' : ` for ${config.language}`) +
+    (config.spokenLanguage ? ` (spoken: ${config.spokenLanguage})` : '');
+  const sourceText = sourceName ? ` - ${sourceName}` : '';
+  const title = `GitHub Trending ${kindText}${timeRangeText}${languageText}${sourceText}`;
+  const description = `The most popular ${subject} ${timeRangeText.toLowerCase()}${languageText}.`;
+
+  return { title, description };
+}
+
+/**
+ * ソースの種類に応じてフィードのタイトルと説明を決定する
+ */
+function describeSource(config: CLIOptions, sourceName: string) {
+  return config.kind === 'developers'
+    ? describeFeed(config, 'GitHub developers', sourceName, 'Developers ')
+    : describeFeed(config, 'GitHub repositories', sourceName);
+}
+
+/**
+ * 設定ファイルのすべてのソースをダッシュボードに掲載する形にする
+ * 今回生成したソースには取得したリポジトリまたは開発者を含める
+ */
+export function buildSiteSources(
+  configFile: ConfigFile,
+  results: {
+    source: string;
+    repos?: TrendingRepo[];
+    developers?: TrendingDeveloper[];
+  }[],
+  options: SourceOptions = {}
+): SiteSource[] {
+  return configFile.sources.map((source) => {
+    const { config } = resolveSourceConfig({
+      ...sourceOptionsFromConfig(source, configFile),
+      ...options,
+    });
+    const result = results.find((item) => item.source === source.name);
+    return {
+      name: source.name,
+      ...describeSource(config, source.name),
+      kind: config.kind,
+      outputs: config.outputs,
+      repos: result?.repos,
+      developers: result?.developers,
+    };
+  });
+}
+
+/**
+ * 設定ファイルのすべてのソースのフィードを OPML にまとめる
+ * フィードのURLは CLI > opml.publicBaseUrl > ソース > global の publicBaseUrl から決める
+ */
+export function buildOpml(
+  configFile: ConfigFile,
+  opml: OpmlConfig = {},
+  options: SourceOptions = {}
+): string {
+  const sources = configFile.sources.map((source): OpmlSource => {
+    const { config, baseUrl } = resolveSourceConfig({
+      ...sourceOptionsFromConfig(source, configFile),
+      ...(opml.publicBaseUrl ? { publicBaseUrl: opml.publicBaseUrl } : {}),
+      ...omitUndefined(options),
+    });
+    if (config.outputs.every((output) => !output.url)) {
+      logger.warn(
+        `${source.name} has no public feed URL; set publicBaseUrl to make the OPML link usable in feed readers`
+      );
+    }
+
+    return {
+      name: source.name,
+      description: describeSource(config, source.name).description,
+      kind: config.kind,
+      language: config.language,
+      timeRange: config.timeRange,
+      htmlUrl:
+        config.kind === 'composite'
+          ? undefined
+          : buildTrendingUrl(
+              config.kind === 'developers' ? `${baseUrl}/developers` : baseUrl,
+              config.language,
+              config.timeRange,
+              config.spokenLanguage
+            ),
+      outputs: config.outputs,
+    };
+  });
+
+  return generateOpml(sources, opml.groupBy, opml.title);
+}
+
+/**
+ * フィードを各形式で出力してファイルに保存する
+ */
+function writeFeedOutputs(feed: Feed, outputs: FeedOutput[]) {
+  // 一部の形式だけが書き換わらないよう、すべての形式を変換してから書き込む
+  const rendered = outputs.map((output) => ({
+    ...output,
+    content: renderFeed(feed, output.format),
+  }));
+
+  return rendered.map((output) => {
+    // 出力ディレクトリが存在しない場合は作成
+    const outputDir = path.dirname(output.path);
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+      logger.info(`Created output directory: ${outputDir}`);
+    }
+
+    if (hasSameItems(output, output.content)) {
+      logger.info(`${output.format} feed items unchanged; keeping ${output.path}`);
+      return { ...output, written: false };
+    }
+
+    writeFileAtomic(output.path, output.content);
+    logger.info(`${output.format} feed saved to ${output.path}`);
+
+    return { ...output, written: true };
+  });
+}
+
+/**
+ * 出力済みのフィードと掲載する項目 (ID と順序) とタイトルが同じかどうかを判定する
+ * 同じ場合はファイルを書き換えず、Star 数や日時だけが変わって毎日更新されるのを防ぐ
+ */
+function hasSameItems(output: FeedOutput, content: string): boolean {
+  if (!fs.existsSync(output.path)) {
+    return false;
+  }
+
+  const previous = extractFeedIdentity(
+    fs.readFileSync(output.path, 'utf8'),
+    output.format
+  );
+  const current = extractFeedIdentity(content, output.format);
+  return (
+    previous !== null &&
+    current !== null &&
+    JSON.stringify(previous) === JSON.stringify(current)
+  );
+}
+
+/**
+ * 書き込んだフィードがあるかどうかからソースの結果を決める
+ */
+function feedStatus(outputs: { written: boolean }[]): SourceStatus['status'] {
+  return outputs.some((output) => output.written) ? 'updated' : 'unchanged';
+}
+
+/**
+ * 設定ファイルのソースと global からソースのオプションを組み立てる
+ */
+export function sourceOptionsFromConfig(
+  source: TrendSource,
+  configFile: ConfigFile
+): SourceOptions {
+  // ソースで指定したオプションは global の値を上書きする
+  return { ...configFile.global, ...source };
+}
+
+/**
+ * 値が undefined のオプションを取り除く (設定ファイルの値を undefined で上書きしないため)
+ */
+function omitUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * 名前を指定して設定ファイルのソースを選択する (名前がない場合はすべてのソース)
+ */
+export function selectSources(
+  configFile: ConfigFile,
+  sourceNames: string[] = []
+): TrendSource[] {
+  if (sourceNames.length === 0) {
+    return configFile.sources;
+  }
+
+  return sourceNames.map((name) => {
+    const source = configFile.sources.find(
+      (candidate) => candidate.name === name
+    );
+    if (!source) {
+      throw new Error(
+        `Unknown source: ${name} (available: ${configFile.sources
+          .map((candidate) => candidate.name)
+          .join(', ')})`
+      );
+    }
+    return source;
+  });
+}
+
+/**
+ * 設定ファイルと CLI オプションからログ、キャッシュ、HTTP リクエストの設定を反映する
+ */
+function applyRuntimeSettings(options: SourceOptions, configFile?: ConfigFile) {
+  logger.configure({
+    logLevel: options.logLevel ?? configFile?.global.logLevel,
+    enableFileLogging:
+      options.enableFileLogging ?? configFile?.global.enableFileLogging,
+  });
+  configureCache({
+    backend: options.cacheBackend ?? configFile?.global.cacheBackend,
+    maxSize: options.cacheMaxSize ?? configFile?.global.cacheMaxSize,
+  });
+  configureScheduler({
+    concurrency:
+      options.maxRequestsPerHost ??
+      configFile?.global.maxRequestsPerHost ??
+      DEFAULT_SCHEDULER_OPTIONS.concurrency,
+    requestsPerSecond:
+      options.requestsPerSecond ??
+      configFile?.global.requestsPerSecond ??
+      DEFAULT_SCHEDULER_OPTIONS.requestsPerSecond,
+    hosts: configFile?.global.hostLimits || {},
+  });
+  configureHttp({
+    timeout: options.requestTimeout ?? configFile?.global.requestTimeout,
+    maxRetries: options.maxRetries ?? configFile?.global.maxRetries,
+    userAgent: options.userAgent ?? configFile?.global.userAgent,
+    proxy: options.proxy ?? configFile?.global.proxy,
+    fixtureMode: options.fixtureMode ?? configFile?.global.fixtureMode,
+    fixtureDir: options.fixtureDir ?? configFile?.global.fixtureDir,
+  });
+}
+
+/**
+ * 設定ファイルの選択したソースのフィードを生成する
+ * ログ、キャッシュ、HTTP リクエストの設定は呼び出し元で反映しておく
+ * (ダッシュボードと OPML は書き出さない)
+ * @param sourceNames 処理するソースの名前 (省略時はすべて)
+ */
+export async function generateConfigSources(
+  configFile: ConfigFile,
+  options: SourceOptions = {},
+  sourceNames: string[] = []
+) {
+  return withSharedReadmes(async () => {
+    // 選択された composite が参照するソースはフィードを生成せずに取得だけ行う
+    const selected = selectSources(configFile, sourceNames);
+    const dependencies = new Set(
+      selected.flatMap((source) =>
+        source.kind === 'composite' ? source.sources || [] : []
+      )
+    );
+    const included = configFile.sources.filter(
+      (source) => selected.includes(source) || dependencies.has(source.name)
+    );
 
-          // 結果を出力
-          const rssContent = feed.rss2();
+    // composite は参照先のソースを処理した後にまとめて処理する
+    const orderedSources = [
+      ...included.filter((source) => source.kind !== 'composite'),
+      ...included.filter((source) => source.kind === 'composite'),
+    ];
+    // composite で使うために各ソースで取得したリポジトリを保持する
+    const reposBySource = new Map<string, TrendingRepo[]>();
+    // 失敗したソースとエラーメッセージ
+    const failures = new Map<string, string>();
 
-          // ファイルに保存
-          fs.writeFileSync(config.outputPath, rssContent);
-          logger.info(`RSS feed saved to ${config.outputPath}`);
+    // 各ソースを処理
+    const processConfigSource = async (source: TrendSource) => {
+      try {
+        logger.info(`Processing source: ${source.name}`);
+        const sourceOptions: SourceOptions = {
+          ...sourceOptionsFromConfig(source, configFile),
+          ...options, // CLIオプションは設定ファイルより優先
+        };
+
+        if (!selected.includes(source)) {
+          const { repos } = await processSource(sourceOptions);
+          reposBySource.set(source.name, repos);
+          return undefined;
+        }
+
+        if (source.kind === 'developers') {
+          const { developers, config } =
+            await processDevelopersSource(sourceOptions);
+          const { feed, outputs } = buildDevelopersFeed(
+            developers,
+            config,
+            source.name
+          );
 
-          results.push({
+          return {
             source: source.name,
+            status: feedStatus(outputs),
             feed,
-            repos,
-            outputPath: config.outputPath,
+            developers,
+            outputs: outputs.map((output) => output.path),
+          };
+        }
+
+        if (source.kind === 'composite') {
+          // 参照先が1つでも失敗した場合は一部の項目だけで上書きせず前回のフィードを残す
+          const lists = (source.sources || []).map((name) => {
+            const repos = reposBySource.get(name);
+            if (!repos) {
+              throw new Error(
+                `Source ${name} failed${failures.has(name) ? ` (${failures.get(name)})` : ''}`
+              );
+            }
+            return { source: name, repos };
           });
-        } catch (error: any) {
-          logger.error(
-            `Error processing source ${source.name}: ${error.message}`
+
+          const { config } = resolveSourceConfig(sourceOptions);
+          const { feed, repos, outputs } = await buildFeed(
+            mergeTrendingRepos(lists),
+            config,
+            source.name
           );
-          // エラーが発生しても他のソースの処理を続行
-        }
-      }
 
-      return { sources: results };
-    } else {
-      // 単一ソースの通常処理
-      const { repos, config, baseUrl } = await processSource(options);
+          return {
+            source: source.name,
+            status: feedStatus(outputs),
+            feed,
+            repos,
+            outputs: outputs.map((output) => output.path),
+          };
+        }
 
-      // READMEを並行または連続に取得
-      if (config.parallel) {
-        logger.info(
-          `Fetching READMEs in parallel with max ${config.maxParallelRequests} concurrent requests`
+        const { repos: fetchedRepos, config } =
+          await processSource(sourceOptions);
+        reposBySource.set(
+          source.name,
+          fetchedRepos.map((repo) => ({ ...repo }))
         );
-        const limit = pLimit(config.maxParallelRequests);
-
-        const tasks = repos.map((repo, index) =>
-          limit(async () => {
-            try {
-              logger.info(
-                `[${index + 1}/${repos.length}] Fetching README for ${
-                  repo.name
-                }`
-              );
-              const readme = await fetchReadme(repo.name);
-              repos[index].readme = summarizeReadme(
-                readme,
-                config.maxReadmeLength
-              );
-              logger.info(
-                `[${index + 1}/${
-                  repos.length
-                }] Successfully fetched README for ${repo.name}`
-              );
-            } catch (error) {
-              logger.warn(
-                `[${index + 1}/${repos.length}] Error fetching README for ${
-                  repo.name
-                }: ${error}`
-              );
-              repos[index].readme =
-                'README could not be fetched due to an error.';
-            }
-          })
+        const { feed, repos, outputs } = await buildFeed(
+          fetchedRepos,
+          config,
+          source.name
         );
 
-        await Promise.all(tasks);
-      } else {
-        logger.info('Fetching READMEs sequentially');
-        for (let i = 0; i < repos.length; i++) {
-          try {
-            logger.info(
-              `[${i + 1}/${repos.length}] Fetching README for ${repos[i].name}`
-            );
-            const readme = await fetchReadme(repos[i].name);
-            repos[i].readme = summarizeReadme(readme, config.maxReadmeLength);
-            logger.info(
-              `[${i + 1}/${repos.length}] Successfully fetched README for ${
-                repos[i].name
-              }`
-            );
-          } catch (error) {
-            logger.warn(
-              `[${i + 1}/${repos.length}] Error fetching README for ${
-                repos[i].name
-              }: ${error}`
-            );
-            repos[i].readme = 'README could not be fetched due to an error.';
-          }
+        return {
+          source: source.name,
+          status: feedStatus(outputs),
+          feed,
+          repos,
+          outputs: outputs.map((output) => output.path),
+        };
+      } catch (error: any) {
+        logger.error(
+          `Error processing source ${source.name}: ${error.message}`
+        );
+        // エラーが発生しても他のソースの処理を続行 (前回のフィードはそのまま残る)
+        failures.set(source.name, error.message);
+        return undefined;
+      }
+    };
+
+    // composite 以外のソースは並行して処理し、composite はその後に処理する
+    const limit = pLimit(
+      options.maxConcurrentSources ??
+        configFile.global.maxConcurrentSources ??
+        DEFAULT_MAX_CONCURRENT_SOURCES
+    );
+    const processed = await Promise.all(
+      orderedSources
+        .filter((source) => source.kind !== 'composite')
+        .map((source) => limit(() => processConfigSource(source)))
+    );
+    for (const source of orderedSources) {
+      if (source.kind === 'composite') {
+        processed.push(await processConfigSource(source));
+      }
+    }
+    const results = processed.filter((result) => result !== undefined);
+
+    // 選択されたソースと失敗したソースの結果を設定ファイルの順に並べる
+    const statuses = included.flatMap((source): SourceStatus[] => {
+      const result = results.find((item) => item.source === source.name);
+      if (result) {
+        return [
+          {
+            source: source.name,
+            status: result.status,
+            items: (result.repos || result.developers || []).length,
+          },
+        ];
+      }
+      const error = failures.get(source.name);
+      return error ? [{ source: source.name, status: 'failed', error }] : [];
+    });
+
+    return { results, statuses };
+  });
+}
+
+/**
+ * 設定ファイルの1つのソースのフィードだけを生成し直す (サーバーで古くなったフィードに使う)
+ * 実行全体の設定、ダッシュボードと OPML は変更しない
+ */
+export async function regenerateConfigSource(
+  configFile: ConfigFile,
+  sourceName: string
+): Promise<void> {
+  const { statuses } = await generateConfigSources(configFile, {}, [
+    sourceName,
+  ]);
+  const failed = statuses.find(
+    (status) => status.source === sourceName && status.status === 'failed'
+  );
+  if (failed) {
+    throw new Error(failed.error);
+  }
+}
+
+/**
+ * メイン関数 - GitHub トレンドを取得して RSS に変換
+ * @param sourceNames 設定ファイルのうち処理するソースの名前 (省略時はすべて)
+ */
+export async function main(
+  options: SourceOptions = {},
+  sourceNames: string[] = []
+) {
+  try {
+    options = omitUndefined(options);
+
+    // 設定ファイルが指定されている場合は読み込む
+    if (options.configPath) {
+      logger.info(`Loading config file: ${options.configPath}`);
+      const configFile = loadConfig(options.configPath);
+      applyRuntimeSettings(options, configFile);
+
+      const { results, statuses } = await generateConfigSources(
+        configFile,
+        options,
+        sourceNames
+      );
+
+      // ダッシュボードにはすべてのソースを掲載し、今回生成したソースのページを更新する
+      const siteDir = options.siteDir ?? configFile.global.siteDir;
+      if (siteDir) {
+        writeSite(siteDir, buildSiteSources(configFile, results, options));
+      }
+
+      // フィードの一覧の OPML は選択したソースに関係なくすべてのソースから生成する
+      const opml = configFile.opml;
+      if (opml?.outputPath) {
+        fs.mkdirSync(path.dirname(opml.outputPath), { recursive: true });
+        if (
+          writeFileIfChanged(
+            opml.outputPath,
+            buildOpml(configFile, opml, options)
+          )
+        ) {
+          logger.info(`OPML saved to ${opml.outputPath}`);
         }
       }
 
-      // タイトルと説明を設定
-      const timeRangeText =
-        config.timeRange === 'daily'
-          ? 'Today'
-          : config.timeRange === 'weekly'
-            ? 'This Week'
-            : 'This Month';
-      const languageText = config.language ? ` for ${config.language}` : '';
-      const title = `GitHub Trending ${timeRangeText}${languageText}`;
-      const description = `The most popular GitHub repositories ${timeRangeText.toLowerCase()}${languageText}.`;
-
-      // RSS フィードを生成
-      const feed = generateRSSFeed(repos, title, description);
-
-      // 出力ディレクトリが存在しない場合は作成
-      const outputDir = path.dirname(config.outputPath);
-      if (!fs.existsSync(outputDir)) {
-        fs.mkdirSync(outputDir, { recursive: true });
-        logger.info(`Created output directory: ${outputDir}`);
+      return { sources: results, statuses };
+    } else {
+      if (sourceNames.length > 0) {
+        throw new Error('Selecting sources by name requires --config');
       }
+      applyRuntimeSettings(options);
 
-      // 結果を出力
-      const rssContent = feed.rss2();
+      // 単一ソースの通常処理
+      if (options.kind === 'developers') {
+        const { developers, config } = await processDevelopersSource(options);
+        const { feed, outputs } = buildDevelopersFeed(developers, config);
 
-      // ファイルに保存
-      fs.writeFileSync(config.outputPath, rssContent);
-      logger.info(`RSS feed saved to ${config.outputPath}`);
+        return {
+          feed,
+          developers,
+          outputs,
+        };
+      }
+
+      const { repos: fetchedRepos, config } = await processSource(options);
+      const { feed, repos, outputs } = await withSharedReadmes(() =>
+        buildFeed(fetchedRepos, config)
+      );
 
       return {
         feed,
         repos,
-        rssContent,
+        outputs,
       };
     }
   } catch (error: any) {
@@ -347,91 +1078,908 @@ export async function main(options: SourceOptions = {}) {
   }
 }
 
+/**
+ * ソースの最終的な設定と、各値の出所 (cli, source, global, default) を返す
+ * 優先順位は CLI > ソース > global > デフォルト値
+ */
+export function resolveEffectiveConfig(
+  options: SourceOptions,
+  source?: TrendSource,
+  configFile?: ConfigFile
+) {
+  const { config, baseUrl, origins } = resolveLayeredSourceConfig([
+    { origin: 'cli', options },
+    { origin: 'source', options: source ?? {} },
+    { origin: 'global', options: (source && configFile?.global) || {} },
+  ]);
+
+  return Object.entries({ ...config, baseUrl }).map(([key, value]) => ({
+    key,
+    // トークンは表示しない
+    value: key === 'githubToken' && value ? '***' : value,
+    origin: origins[key],
+  }));
+}
+
+/**
+ * 選択したソースの最終的な設定を表示する
+ */
+export function printEffectiveConfig(
+  options: SourceOptions = {},
+  sourceNames: string[] = []
+) {
+  const configFile = options.configPath
+    ? loadConfig(options.configPath)
+    : undefined;
+  const targets: (TrendSource | undefined)[] = configFile
+    ? selectSources(configFile, sourceNames)
+    : [undefined];
+
+  targets.forEach((source) => {
+    const entries = resolveEffectiveConfig(options, source, configFile);
+    const width = Math.max(...entries.map((entry) => entry.key.length));
+    console.log(source ? source.name : '(command line)');
+    entries.forEach(({ key, value, origin }) => {
+      if (value === undefined) return;
+      console.log(
+        `  ${key.padEnd(width)}  ${JSON.stringify(value)}  (${origin})`
+      );
+    });
+  });
+}
+
+/**
+ * 設定ファイルのソースを取得し、フィードを生成せずにルール適用後の項目を返す
+ * 履歴の記録や README の取得は行わない
+ */
+export async function previewSource(
+  sourceName: string,
+  options: SourceOptions = {}
+): Promise<{
+  source: TrendSource;
+  repos?: TrendingRepo[];
+  developers?: TrendingDeveloper[];
+}> {
+  if (!options.configPath) {
+    throw new Error('preview requires --config');
+  }
+
+  const configFile = loadConfig(options.configPath);
+  options = omitUndefined(options);
+  applyRuntimeSettings(options, configFile);
+  const [source] = selectSources(configFile, [sourceName]);
+  const optionsFor = (target: TrendSource): SourceOptions => ({
+    ...sourceOptionsFromConfig(target, configFile),
+    ...options,
+  });
+
+  if (source.kind === 'developers') {
+    const { developers } = await processDevelopersSource(optionsFor(source));
+    return { source, developers };
+  }
+
+  if (source.kind === 'composite') {
+    const lists = [];
+    for (const target of selectSources(configFile, source.sources)) {
+      const { repos } = await processSource(optionsFor(target));
+      lists.push({ source: target.name, repos });
+    }
+    const { config } = resolveSourceConfig(optionsFor(source));
+    return {
+      source,
+      repos: await filterByRules(mergeTrendingRepos(lists), config),
+    };
+  }
+
+  const { repos, config } = await processSource(optionsFor(source));
+  return { source, repos: await filterByRules(repos, config) };
+}
+
+/**
+ * 単一のリポジトリの README をプロンプトで要約し、Markdown ファイルに保存する
+ */
+async function summarizeRepositoryToFile(
+  repoName: string,
+  summary: SummaryConfig,
+  config: CLIOptions,
+  outputPath: string
+) {
+  const [owner, name] = repoName.split('/');
+  const readme = await resolveReadme(repoName, {
+    apiUrl: config.githubApiUrl,
+    token: config.githubToken,
+    cacheDir: config.useCache ? config.cacheDir : undefined,
+    cacheExpiry: config.readmeCacheExpiry,
+  });
+  const repo: TrendingRepo = {
+    name: repoName,
+    owner,
+    repoName: name,
+    rank: 0,
+    url: `https://github.com/${repoName}`,
+    description: '',
+    language: '',
+    stars: '',
+    forks: '',
+    todayStars: '',
+    starCount: 0,
+    forkCount: 0,
+    periodStars: 0,
+    period: 'day',
+    avatarUrl: `https://github.com/${owner}.png`,
+    contributors: [],
+    readme: summarizeReadme(
+      readme.content,
+      config.maxReadmeLength,
+      config.readmeStrategy === 'none' ? 'truncate' : config.readmeStrategy
+    ),
+    readmePath: readme.path,
+    defaultBranch: readme.branch,
+  };
+
+  const text = await summarizeRepo(
+    repo,
+    createSummaryProvider(summary),
+    resolvePromptTemplate(summary),
+    config.useCache ? config.cacheDir : undefined
+  );
+
+  const outputDir = path.dirname(outputPath);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+    logger.info(`Created output directory: ${outputDir}`);
+  }
+  fs.writeFileSync(outputPath, `# ${repoName}\n\n${repo.url}\n\n${text}\n`);
+  logger.info(`Summary of ${repoName} saved to ${outputPath}`);
+}
+
+/**
+ * CSV のプロンプトを1行ずつ処理するバッチモード
+ * ref が設定ファイルのソース名の場合はそのソースのフィードを、owner/repo の場合は
+ * リポジトリの要約 (Markdown) を、ref がない場合は CLI オプションのソースのフィードを
+ * 行のプロンプトで要約して出力する
+ */
+export async function runPromptBatch(
+  csvPath: string,
+  options: SourceOptions = {},
+  outputDir: string = './batch'
+): Promise<BatchResult[]> {
+  options = omitUndefined(options);
+  const prompts = loadPromptsFromCSV(csvPath);
+  const configFile = options.configPath
+    ? loadConfig(options.configPath)
+    : undefined;
+  const baseSummary = options.summary ?? configFile?.global.summary;
+  applyRuntimeSettings(options, configFile);
+  if (!baseSummary) {
+    throw new Error(
+      'The prompt batch requires a summary provider (--summary-provider or summary in the config file)'
+    );
+  }
+
+  const results: BatchResult[] = [];
+
+  for (let i = 0; i < prompts.length; i++) {
+    const { prompt, ref, output } = prompts[i];
+    const row = i + 1;
+    const target =
+      ref ||
+      `${languageLabel(options.language ?? 'python')} ${options.timeRange ?? 'daily'}`;
+    logger.info(`Processing prompt ${row}/${prompts.length} for ${target}`);
+
+    // 行のプロンプトを使うため、CSV のプロンプトファイルの指定は無視する
+    const summary: SummaryConfig = {
+      ...baseSummary,
+      prompt,
+      promptsPath: undefined,
+    };
+    const batchOptions: SourceOptions = {
+      summary,
+      // バッチの実行はトレンド履歴に記録しない
+      historyPath: undefined,
+      onlyNew: false,
+      rules: [],
+      outputs: undefined,
+    };
+
+    try {
+      const source = ref
+        ? configFile?.sources.find((candidate) => candidate.name === ref)
+        : undefined;
+
+      if (ref && !source && /^[\w.-]+\/[\w.-]+$/.test(ref)) {
+        const outputPath =
+          output || path.join(outputDir, `${row}-${toSlug(ref, 'prompt')}.md`);
+        const { config } = resolveSourceConfig({ ...options, ...batchOptions });
+        await summarizeRepositoryToFile(ref, summary, config, outputPath);
+        results.push({ row, ref: target, status: 'success', outputPath });
+        continue;
+      }
+
+      if (ref && !source) {
+        throw new Error(
+          `ref "${ref}" is neither a source in the config file nor an owner/repo name`
+        );
+      }
+      if (source && source.kind && source.kind !== 'repositories') {
+        throw new Error(
+          `Source ${source.name} is a ${source.kind} source; only repositories sources can be summarized`
+        );
+      }
+
+      const { repos: fetchedRepos, config } = await processSource({
+        ...(source && configFile
+          ? sourceOptionsFromConfig(source, configFile)
+          : {}),
+        ...options, // CLIオプションは設定ファイルより優先
+        ...batchOptions,
+        outputPath:
+          output ||
+          path.join(outputDir, `${row}-${toSlug(target, 'prompt')}.xml`),
+      });
+      const { outputs } = await buildFeed(fetchedRepos, config, source?.name);
+
+      results.push({
+        row,
+        ref: target,
+        status: 'success',
+        outputPath: outputs.map((feedOutput) => feedOutput.path).join(', '),
+      });
+    } catch (error: any) {
+      logger.error(
+        `Error processing prompt ${row} (${target}): ${error.message}`
+      );
+      results.push({
+        row,
+        ref: target,
+        status: 'failure',
+        error: error.message,
+      });
+    }
+  }
+
+  reportBatchResults(results);
+  return results;
+}
+
+/**
+ * バッチの処理結果の一覧を出力する
+ */
+function reportBatchResults(results: BatchResult[]) {
+  const failures = results.filter((result) => result.status === 'failure');
+  const lines = results.map((result) =>
+    result.status === 'success'
+      ? `  ✓ row ${result.row} (${result.ref}) -> ${result.outputPath}`
+      : `  ✗ row ${result.row} (${result.ref}): ${result.error}`
+  );
+
+  console.log(
+    [
+      `Prompt batch finished: ${results.length - failures.length} succeeded, ${failures.length} failed`,
+      ...lines,
+    ].join('\n')
+  );
+  logger.info(
+    `Prompt batch finished: ${results.length - failures.length} succeeded, ${failures.length} failed`
+  );
+}
+
+/**
+ * ソースごとのフィード生成の結果を表示する
+ */
+function reportSourceStatuses(statuses: SourceStatus[]) {
+  const failures = statuses.filter((status) => status.status === 'failed');
+  const width = Math.max(...statuses.map((status) => status.source.length));
+  const lines = statuses.map((status) =>
+    status.status === 'failed'
+      ? `  ✗ ${status.source.padEnd(width)}  failed: ${status.error} (kept the previous feed)`
+      : `  ✓ ${status.source.padEnd(width)}  ${status.status} (${status.items} items)`
+  );
+
+  console.log(
+    [
+      `Sources: ${statuses.length - failures.length} succeeded, ${failures.length} failed`,
+      ...lines,
+    ].join('\n')
+  );
+}
+
 // CLI エントリーポイント
-if (import.meta.url.startsWith('file:') && Bun.main && import.meta.url.includes(Bun.main)) {
+if (
+  import.meta.url.startsWith('file:') &&
+  Bun.main &&
+  import.meta.url.includes(Bun.main)
+) {
   const program = new Command();
 
+  /**
+   * 数値のオプションを変換する (未指定の場合は undefined)
+   */
+  const toNumber = (value?: string) =>
+    value === undefined ? undefined : parseInt(value);
+  const toFloat = (value?: string) =>
+    value === undefined ? undefined : parseFloat(value);
+
+  /**
+   * コマンドラインで指定されたオプションをソースのオプションに変換する
+   * commander の既定値は使わず、指定された値だけで設定ファイルの値を上書きする
+   */
+  const toSourceOptions = (command: Command): SourceOptions => {
+    const all = command.opts();
+    const options = Object.fromEntries(
+      Object.keys(all)
+        .filter((key) => command.getOptionValueSource(key) === 'cli')
+        .map((key) => [key, all[key]])
+    );
+    if (options.record && options.replay) {
+      throw new Error('--record and --replay cannot be used together');
+    }
+
+    return omitUndefined<SourceOptions>({
+      configPath: options.config,
+      kind: options.kind,
+      language: options.language,
+      timeRange: options.timeRange,
+      spokenLanguage: options.spokenLanguage,
+      outputPath: options.output,
+      formats: options.format
+        ?.split(',')
+        .map((format: string) => format.trim()),
+      publicBaseUrl: options.publicBaseUrl,
+      githubApiUrl: options.githubApiUrl,
+      summary: options.summaryProvider
+        ? {
+            provider: options.summaryProvider,
+            baseUrl: options.summaryBaseUrl,
+            model: options.summaryModel,
+            promptsPath: options.summaryPrompts,
+          }
+        : undefined,
+      cacheDir: options.cacheDir,
+      cacheExpiry: toNumber(options.cacheExpiry),
+      readmeCacheExpiry: toNumber(options.readmeCacheExpiry),
+      cacheBackend: options.cacheBackend,
+      cacheMaxSize: toNumber(options.cacheMaxSize),
+      useCache: options.cache,
+      maxReadmeLength: toNumber(options.maxReadmeLength),
+      readmeStrategy: options.readmeStrategy,
+      stripBadges: options.stripBadges,
+      logLevel: options.logLevel,
+      enableFileLogging: options.enableFileLogging,
+      parallel: options.parallel,
+      maxParallelRequests: toNumber(options.maxParallelRequests),
+      maxConcurrentSources: toNumber(options.maxConcurrentSources),
+      maxRequestsPerHost: toNumber(options.maxRequestsPerHost),
+      requestsPerSecond: toFloat(options.requestsPerSecond),
+      requestTimeout: toNumber(options.requestTimeout),
+      maxRetries: toNumber(options.maxRetries),
+      userAgent: options.userAgent,
+      proxy: options.proxy,
+      ...(options.record
+        ? { fixtureMode: 'record' as const, fixtureDir: options.record }
+        : {}),
+      ...(options.replay
+        ? { fixtureMode: 'replay' as const, fixtureDir: options.replay }
+        : {}),
+      historyPath: options.history,
+      minParsedItems: toNumber(options.minParsedItems),
+      debugDir: options.debugDir,
+      siteDir: options.siteDir,
+      onlyNew: options.onlyNew,
+      newWithinDays: toNumber(options.newWithinDays),
+    });
+  };
+
+  /**
+   * フィードの生成に関するオプションを追加する
+   */
+  const addSourceOptions = (command: Command) =>
+    command
+      .option('--config <path>', 'Path to config file')
+      .option(
+        '-k, --kind <kind>',
+        'Trending page kind (repositories, developers)',
+        'repositories'
+      )
+      .option('-l, --language <language>', 'Programming language', 'python')
+      .option(
+        '-t, --time-range <timeRange>',
+        'Time range (daily, weekly, monthly)',
+        'daily'
+      )
+      .option(
+        '-s, --spoken-language <code>',
+        'Spoken language code to filter by (e.g. ja)'
+      )
+      .option(
+        '-o, --output <path>',
+        'Output path for the RSS feed',
+        './github-trending.xml'
+      )
+      .option(
+        '-f, --format <formats>',
+        'Comma-separated output formats (rss2, atom1, json1)',
+        'rss2'
+      )
+      .option(
+        '--public-base-url <url>',
+        'Public base URL the feeds are published under'
+      )
+      .option('--no-cache', 'Disable cache')
+      .option('--cache-dir <path>', 'Cache directory', './.cache')
+      .option(
+        '--cache-expiry <ms>',
+        'Trending page cache expiry in milliseconds',
+        '3600000'
+      )
+      .option(
+        '--readme-cache-expiry <ms>',
+        'README cache expiry in milliseconds',
+        '86400000'
+      )
+      .option(
+        '--cache-backend <backend>',
+        'Cache backend (file, sqlite)',
+        'file'
+      )
+      .option(
+        '--cache-max-size <bytes>',
+        'Maximum cache size in bytes before least recently used entries are evicted',
+        '104857600'
+      )
+      .option('--max-readme-length <length>', 'Maximum README length', '20000')
+      .option(
+        '--readme-strategy <strategy>',
+        'How READMEs are included (full, truncate, excerpt, none)',
+        'truncate'
+      )
+      .option('--no-strip-badges', 'Keep badge images in rendered READMEs')
+      .option(
+        '--log-level <level>',
+        'Log level (DEBUG, INFO, WARN, ERROR)',
+        'INFO'
+      )
+      .option('--enable-file-logging', 'Enable file logging')
+      .option('--no-parallel', 'Disable parallel README fetching')
+      .option(
+        '--max-parallel-requests <number>',
+        'Maximum number of parallel requests',
+        '5'
+      )
+      .option(
+        '--max-concurrent-sources <number>',
+        'Number of config sources processed at the same time',
+        '3'
+      )
+      .option(
+        '--max-requests-per-host <number>',
+        'Concurrent requests per host, shared by all sources',
+        '4'
+      )
+      .option(
+        '--requests-per-second <number>',
+        'Requests per second per host, shared by all sources',
+        '5'
+      )
+      .option(
+        '--request-timeout <ms>',
+        'Timeout of a single HTTP request in milliseconds',
+        '30000'
+      )
+      .option(
+        '--max-retries <number>',
+        'Retries on network errors, timeouts and 5xx responses',
+        '3'
+      )
+      .option(
+        '--user-agent <agent>',
+        'User-Agent header sent with every request',
+        'GitHub-Trend-RSS-Generator/1.0'
+      )
+      .option('--proxy <url>', 'HTTP proxy for all requests')
+      .option('--record <dir>', 'Record every HTTP response to a directory')
+      .option(
+        '--replay <dir>',
+        'Replay recorded HTTP responses instead of using the network'
+      )
+      .option(
+        '--github-api-url <url>',
+        'Base URL of the GitHub REST API',
+        'https://api.github.com'
+      )
+      .option(
+        '--summary-provider <provider>',
+        'Summarize READMEs with an LLM provider (openai, stub)'
+      )
+      .option(
+        '--summary-base-url <url>',
+        'Base URL of the OpenAI-compatible API used for summaries'
+      )
+      .option('--summary-model <model>', 'Model used for summaries')
+      .option(
+        '--summary-prompts <path>',
+        'CSV file with the prompt template used for summaries'
+      )
+      .option(
+        '--min-parsed-items <number>',
+        'Keep the existing feed when fewer items are parsed from the trending page',
+        '1'
+      )
+      .option(
+        '--debug-dir <path>',
+        'Directory the HTML of unparseable trending pages is saved to'
+      )
+      .option(
+        '--site-dir <path>',
+        'Write an HTML dashboard of all feeds of the config file to a directory'
+      )
+      .option('--history <path>', 'Record trend history to a JSONL file')
+      .option(
+        '--only-new',
+        'Only publish repositories not seen in the last N days (requires --history)'
+      )
+      .option(
+        '--new-within-days <days>',
+        'Number of days a published repository is suppressed for',
+        '7'
+      );
+
+  /**
+   * コマンドのエラーを表示して終了する
+   */
+  const fail = (error: any) => {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  };
+
   program
     .name('github-trend-rss')
     .description('Generate RSS feed from GitHub Trending repositories')
     .version('1.0.0')
+    // サブコマンドの後のオプションはサブコマンドのオプションとして扱う
+    .enablePositionalOptions();
 
-    .option('-l, --language <language>', 'Programming language', 'python')
+  addSourceOptions(
+    program
+      .command('generate', { isDefault: true })
+      .description(
+        'Generate feeds for the given sources of the config file (all when omitted), or for a single source described by the options'
+      )
+      .argument('[source...]', 'Names of the sources in the config file')
+  )
     .option(
-      '-t, --time-range <timeRange>',
-      'Time range (daily, weekly, monthly)',
-      'daily'
+      '--print-effective-config',
+      'Print the resolved options of each source and where they come from, without generating feeds'
     )
+    .action(async (sourceNames: string[], _options, command: Command) => {
+      try {
+        const options = toSourceOptions(command);
+        if (command.opts().printEffectiveConfig) {
+          logger.configure({ logLevel: 'WARN' });
+          printEffectiveConfig(options, sourceNames);
+          return;
+        }
+        if (options.configPath) {
+          console.log(`Using config file: ${options.configPath}`);
+        } else {
+          console.log(
+            `Using direct CLI options (language: ${languageLabel(options.language ?? 'python')}, timeRange: ${options.timeRange ?? 'daily'})`
+          );
+        }
+        const result = await main(options, sourceNames);
+        if (result.statuses) {
+          reportSourceStatuses(result.statuses);
+          if (result.statuses.some((status) => status.status === 'failed')) {
+            console.error('GitHub Trend RSS completed with failed sources');
+            process.exitCode = 1;
+            return;
+          }
+        }
+        console.log('GitHub Trend RSS completed successfully');
+      } catch (error: any) {
+        fail(error);
+      }
+    });
+
+  addSourceOptions(
+    program
+      .command('batch')
+      .description(
+        'Run a prompt batch from a CSV file (columns: prompt, ref, output)'
+      )
+      .argument('<csv>', 'Path to the CSV file with prompts')
+  )
     .option(
-      '-o, --output <path>',
-      'Output path for the RSS feed',
-      './github-trending.xml'
+      '--batch-dir <path>',
+      'Output directory for prompt batch artifacts',
+      './batch'
     )
-    .option('--no-cache', 'Disable cache')
-    .option('--cache-dir <path>', 'Cache directory', './.cache')
-    .option('--cache-expiry <ms>', 'Cache expiry in milliseconds', '3600000')
-    .option('--max-readme-length <length>', 'Maximum README length', '20000')
+    .action(async (csvPath: string, options, command: Command) => {
+      try {
+        const results = await runPromptBatch(
+          csvPath,
+          toSourceOptions(command),
+          options.batchDir
+        );
+        if (results.some((result) => result.status === 'failure')) {
+          process.exitCode = 1;
+        }
+      } catch (error: any) {
+        fail(error);
+      }
+    });
+
+  program
+    .command('list-sources')
+    .description('List the sources of the config file')
+    .option('--config <path>', 'Path to config file', 'config.json')
+    .action((options) => {
+      try {
+        logger.configure({ logLevel: 'WARN' });
+        const configFile = loadConfig(options.config);
+        const rows = configFile.sources.map((source) => [
+          source.name,
+          source.kind || 'repositories',
+          source.kind === 'composite'
+            ? (source.sources || []).join(' + ')
+            : [
+                source.language || 'all',
+                source.timeRange,
+                source.spokenLanguage,
+              ]
+                .filter(Boolean)
+                .join(' '),
+          (source.outputs?.map((output) => output.path) || [source.outputPath])
+            .filter(Boolean)
+            .join(', '),
+        ]);
+        const widths = [0, 1, 2].map((column) =>
+          Math.max(...rows.map((row) => (row[column] || '').length))
+        );
+        rows.forEach((row) => {
+          console.log(
+            row
+              .map((cell, column) =>
+                column < widths.length
+                  ? (cell || '').padEnd(widths[column])
+                  : cell
+              )
+              .join('  ')
+          );
+        });
+      } catch (error: any) {
+        fail(error);
+      }
+    });
+
+  program
+    .command('validate-config')
+    .description('Check the config file and report the first problem found')
+    .argument('[config]', 'Path to config file', 'config.json')
+    .action((configPath: string) => {
+      try {
+        logger.configure({ logLevel: 'ERROR' });
+        const configFile = loadConfig(configPath);
+        console.log(
+          `${configPath} is valid (${configFile.sources.length} sources)`
+        );
+      } catch (error: any) {
+        fail(error);
+      }
+    });
+
+  program
+    .command('schema')
+    .description('Print the JSON Schema of the config file for editors')
+    .option('-o, --output <path>', 'Write the schema to a file')
+    .action((options) => {
+      try {
+        const schema = JSON.stringify(buildConfigSchema(), null, 2) + '\n';
+        if (options.output) {
+          fs.writeFileSync(options.output, schema);
+          console.log(`JSON Schema saved to ${options.output}`);
+        } else {
+          process.stdout.write(schema);
+        }
+      } catch (error: any) {
+        fail(error);
+      }
+    });
+
+  program
+    .command('opml')
+    .description('Print an OPML list of all feeds of the config file')
+    .option('--config <path>', 'Path to config file', 'config.json')
+    .option('-o, --output <path>', 'Write the OPML to a file')
+    .option('--group-by <field>', 'Group the feeds by timeRange or language')
+    .option('--title <title>', 'Title of the OPML')
     .option(
-      '--log-level <level>',
-      'Log level (DEBUG, INFO, WARN, ERROR)',
-      'INFO'
+      '--public-base-url <url>',
+      'Public base URL of the feed links (overrides the config file)'
     )
-    .option('--enable-file-logging', 'Enable file logging')
-    .option('--no-parallel', 'Disable parallel README fetching')
+    .action((options) => {
+      try {
+        // ログは標準出力に出るため、OPML を標準出力に書く場合はエラーのみにする
+        logger.configure({ logLevel: options.output ? 'WARN' : 'ERROR' });
+        const configFile = loadConfig(options.config);
+        const opml = buildOpml(configFile, {
+          ...configFile.opml,
+          ...omitUndefined({
+            groupBy: options.groupBy,
+            title: options.title,
+            publicBaseUrl: options.publicBaseUrl,
+          }),
+        });
+        if (options.output) {
+          fs.mkdirSync(path.dirname(options.output), { recursive: true });
+          fs.writeFileSync(options.output, opml);
+          console.log(`OPML saved to ${options.output}`);
+        } else {
+          process.stdout.write(opml);
+        }
+      } catch (error: any) {
+        fail(error);
+      }
+    });
+
+  addSourceOptions(
+    program
+      .command('preview')
+      .description(
+        'Print the items a source of the config file would publish without writing feeds'
+      )
+      .argument('<source>', 'Name of the source in the config file')
+  ).action(async (sourceName: string, _options, command: Command) => {
+    try {
+      const options = toSourceOptions(command);
+      const { source, repos, developers } = await previewSource(sourceName, {
+        configPath: 'config.json',
+        logLevel: 'WARN',
+        ...options,
+      });
+
+      console.log(`${source.name} (${source.kind || 'repositories'})`);
+      developers?.forEach((developer) => {
+        console.log(
+          `${String(developer.rank).padStart(3)}. ${developer.name} (@${developer.login})${
+            developer.popularRepo ? ` - ${developer.popularRepo.name}` : ''
+          }`
+        );
+      });
+      repos?.forEach((repo, index) => {
+        console.log(
+          `${String(index + 1).padStart(3)}. ${repo.name}  ★ ${repo.stars}  ${repo.todayStars}${
+            repo.language ? `  [${repo.language}]` : ''
+          }${repo.score ? `  score ${repo.score}` : ''}`
+        );
+        if (repo.description) {
+          console.log(`     ${repo.description}`);
+        }
+      });
+    } catch (error: any) {
+      fail(error);
+    }
+  });
+
+  program
+    .command('serve')
+    .description(
+      'Serve the feeds of the config file over HTTP, regenerating stale feeds on request'
+    )
+    .option('--config <path>', 'Path to config file', 'config.json')
     .option(
-      '--max-parallel-requests <number>',
-      'Maximum number of parallel requests',
-      '5'
+      '--port <number>',
+      'Port to listen on (default: server.port or 3001)'
     )
-    .option('--config <path>', 'Path to config file')
-    .option('--csv <path>', 'Path to CSV file with prompts')
+    .option(
+      '--host <host>',
+      'Host to listen on (default: server.host or 0.0.0.0)'
+    )
+    .action((options) => {
+      try {
+        const configFile = loadConfig(options.config);
+        const server = configFile.server || {};
+        // スケジューラーなどの設定はすべての生成で共有する
+        applyRuntimeSettings({}, configFile);
+
+        const feeds = configFile.sources.map((source) => {
+          const { config } = resolveSourceConfig(
+            sourceOptionsFromConfig(source, configFile)
+          );
+          return {
+            name: source.name,
+            slug: toSlug(source.name, 'feed'),
+            outputs: config.outputs,
+            maxAge: server.staleAfter ?? config.cacheExpiry,
+          };
+        });
+
+        new FeedServer({
+          port: toNumber(options.port) ?? server.port ?? DEFAULT_SERVER_PORT,
+          host: options.host ?? server.host ?? DEFAULT_SERVER_HOST,
+          outputDir: server.outputDir ?? DEFAULT_SERVER_OUTPUT_DIR,
+          feeds,
+          regenerate: (sourceName) =>
+            regenerateConfigSource(configFile, sourceName),
+        }).start();
+      } catch (error: any) {
+        fail(error);
+      }
+    });
+
+  /**
+   * cache コマンドのオプションと設定ファイルの global からキャッシュの設定を決定する
+   */
+  const resolveCacheConfig = (options: {
+    config?: string;
+    cacheDir?: string;
+    cacheBackend?: CacheBackend;
+  }): CLIOptions =>
+    resolveSourceConfig({
+      ...(options.config ? loadConfig(options.config).global : {}),
+      ...omitUndefined({
+        cacheDir: options.cacheDir,
+        cacheBackend: options.cacheBackend,
+      }),
+    }).config;
 
-    .action(async (options) => {
+  /**
+   * 解決したキャッシュの設定でキャッシュを開く
+   */
+  const openCache = (config: CLIOptions) => {
+    configureCache({
+      backend: config.cacheBackend,
+      maxSize: config.cacheMaxSize,
+    });
+    return getCacheStore(config.cacheDir);
+  };
+
+  const cache = program
+    .command('cache')
+    .description('Inspect or clear the cache');
+
+  cache
+    .command('stats')
+    .description('Show the number and size of cached entries')
+    .option('--cache-dir <path>', 'Cache directory')
+    .option('--cache-backend <backend>', 'Cache backend (file, sqlite)')
+    .option('--config <path>', 'Read the cache settings from a config file')
+    .action((options) => {
       try {
-        console.log("Starting GitHub Trend RSS with options:", JSON.stringify(options, null, 2));
-        
-        if (options.config) {
-          console.log(`Using config file: ${options.config}`);
-          await main({ configPath: options.config });
-        } else if (options.csv) {
-          const prompts = loadPromptsFromCSV(options.csv);
-          console.log(`Loaded ${prompts.length} prompts from CSV file`);
-          logger.info(`Loaded ${prompts.length} prompts from CSV file`);
-
-          for (let i = 0; i < prompts.length; i++) {
+        const stats = openCache(resolveCacheConfig(options)).stats();
+        console.log(
+          `Cache: ${stats.backend} ${stats.location} (version ${stats.version})`
+        );
+        console.log(
+          `Entries: ${stats.entries} (${formatBytes(stats.totalSize)} of ${formatBytes(stats.maxSize)})`
+        );
+        Object.entries(stats.categories).forEach(
+          ([category, { entries, size }]) => {
             console.log(
-              `Processing prompt ${i + 1}/${prompts.length}: ${
-                prompts[i].prompt
-              }`
-            );
-            logger.info(
-              `Processing prompt ${i + 1}/${prompts.length}: ${
-                prompts[i].prompt
-              }`
+              `  ${category}: ${entries} entries, ${formatBytes(size)}`
             );
-            // ここにプロンプトを処理するコードを追加
           }
-        } else {
-          console.log(`Using direct CLI options (language: ${options.language}, timeRange: ${options.timeRange})`);
-          await main({
-            language: options.language,
-            timeRange: options.timeRange,
-            outputPath: options.output,
-            cacheDir: options.cacheDir,
-            cacheExpiry: parseInt(options.cacheExpiry),
-            useCache: options.cache,
-            maxReadmeLength: parseInt(options.maxReadmeLength),
-            logLevel: options.logLevel,
-            enableFileLogging: options.enableFileLogging,
-            parallel: options.parallel,
-            maxParallelRequests: parseInt(options.maxParallelRequests),
-          });
+        );
+        if (stats.oldest && stats.newest) {
+          console.log(`Oldest: ${stats.oldest}, newest: ${stats.newest}`);
         }
-        console.log("GitHub Trend RSS completed successfully");
       } catch (error: any) {
-        console.error(`Error: ${error.message}`);
-        console.error(error.stack);
-        process.exit(1);
+        fail(error);
+      }
+    });
+
+  cache
+    .command('clear')
+    .description('Remove all cached entries')
+    .option('--cache-dir <path>', 'Cache directory')
+    .option('--cache-backend <backend>', 'Cache backend (file, sqlite)')
+    .option('--config <path>', 'Read the cache settings from a config file')
+    .action((options) => {
+      try {
+        const removed = openCache(resolveCacheConfig(options)).clear();
+        console.log(`Removed ${removed} cache entries`);
+      } catch (error: any) {
+        fail(error);
       }
     });
 
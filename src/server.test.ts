@@ -0,0 +1,201 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FeedServer, ServedFeed } from './server';
+import { logger } from './utils/logger';
+
+const RSS = '<?xml version="1.0"?><rss version="2.0"></rss>';
+
+describe('FeedServer', () => {
+  let outputDir: string;
+  let regenerated: string[];
+  let regenerate: (sourceName: string) => Promise<void>;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'feed-server-'));
+    fs.writeFileSync(path.join(outputDir, 'python-daily.xml'), RSS);
+    regenerated = [];
+    regenerate = async (sourceName) => {
+      regenerated.push(sourceName);
+      fs.writeFileSync(
+        path.join(outputDir, 'python-daily.xml'),
+        RSS.replace('</rss>', '<channel/></rss>')
+      );
+    };
+    spyOn(logger, 'info').mockImplementation(() => {});
+    spyOn(logger, 'warn').mockImplementation(() => {});
+    spyOn(logger, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  const serverWith = (feeds: Partial<ServedFeed>[]) =>
+    new FeedServer({
+      port: 0,
+      host: '127.0.0.1',
+      outputDir,
+      feeds: feeds.map((feed) => ({
+        name: 'Python Daily',
+        slug: 'python-daily',
+        outputs: [
+          { format: 'rss2', path: path.join(outputDir, 'python-daily.xml') },
+        ],
+        maxAge: 60000,
+        ...feed,
+      })),
+      regenerate: (sourceName) => regenerate(sourceName),
+    });
+
+  const get = (server: FeedServer, pathname: string, init: RequestInit = {}) =>
+    server.handle(new Request(`http://localhost${pathname}`, init));
+
+  test('serves a fresh feed without regenerating it', async () => {
+    const response = await get(serverWith([{}]), '/feeds/python-daily.xml');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe(
+      'application/rss+xml; charset=utf-8'
+    );
+    expect(response.headers.get('etag')).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(await response.text()).toBe(RSS);
+    expect(regenerated).toEqual([]);
+  });
+
+  test('finds the feed by its source name', async () => {
+    const response = await get(
+      serverWith([{}]),
+      `/feeds/${encodeURIComponent('Python Daily')}.xml`
+    );
+    expect(response.status).toBe(200);
+  });
+
+  test('answers conditional requests with 304', async () => {
+    const server = serverWith([{}]);
+    const first = await get(server, '/feeds/python-daily.xml');
+    const etag = first.headers.get('etag')!;
+    const lastModified = first.headers.get('last-modified')!;
+
+    const byEtag = await get(server, '/feeds/python-daily.xml', {
+      headers: { 'If-None-Match': `W/${etag}` },
+    });
+    expect(byEtag.status).toBe(304);
+    expect(await byEtag.text()).toBe('');
+
+    const byDate = await get(server, '/feeds/python-daily.xml', {
+      headers: { 'If-Modified-Since': lastModified },
+    });
+    expect(byDate.status).toBe(304);
+
+    // If-None-Match は If-Modified-Since より優先する
+    const changed = await get(server, '/feeds/python-daily.xml', {
+      headers: {
+        'If-None-Match': '"other"',
+        'If-Modified-Since': lastModified,
+      },
+    });
+    expect(changed.status).toBe(200);
+  });
+
+  test('returns 404 for unknown sources and formats', async () => {
+    const server = serverWith([{}]);
+
+    expect((await get(server, '/feeds/go-daily.xml')).status).toBe(404);
+    expect((await get(server, '/feeds/python-daily.json')).status).toBe(404);
+    expect((await get(server, '/feeds/%E0%A4%A.xml')).status).toBe(404);
+    expect((await get(server, '/config.json')).status).toBe(404);
+  });
+
+  test('returns 403 for a feed outside the output directory', async () => {
+    const outside = path.join(os.tmpdir(), 'outside-feed.xml');
+    const response = await get(
+      serverWith([{ outputs: [{ format: 'rss2', path: outside }] }]),
+      '/feeds/python-daily.xml'
+    );
+
+    expect(response.status).toBe(403);
+    expect(regenerated).toEqual([]);
+  });
+
+  test('returns 405 for other methods', async () => {
+    const response = await get(serverWith([{}]), '/feeds/python-daily.xml', {
+      method: 'POST',
+    });
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('GET, HEAD');
+  });
+
+  test('regenerates a stale feed once for concurrent requests', async () => {
+    const server = serverWith([{ maxAge: 0 }]);
+    fs.utimesSync(
+      path.join(outputDir, 'python-daily.xml'),
+      new Date(Date.now() - 1000),
+      new Date(Date.now() - 1000)
+    );
+
+    const responses = await Promise.all([
+      get(server, '/feeds/python-daily.xml'),
+      get(server, '/feeds/python-daily.xml'),
+    ]);
+
+    expect(regenerated).toEqual(['Python Daily']);
+    for (const response of responses) {
+      expect(response.status).toBe(200);
+      expect(await response.text()).toContain('<channel/>');
+    }
+  });
+
+  test('generates a missing feed', async () => {
+    fs.rmSync(path.join(outputDir, 'python-daily.xml'));
+    const response = await get(serverWith([{}]), '/feeds/python-daily.xml');
+
+    expect(regenerated).toEqual(['Python Daily']);
+    expect(response.status).toBe(200);
+  });
+
+  test('serves the previous feed when regeneration fails', async () => {
+    regenerate = async () => {
+      throw new Error('GitHub is down');
+    };
+    const server = serverWith([{ maxAge: -1 }]);
+
+    const response = await get(server, '/feeds/python-daily.xml');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(RSS);
+  });
+
+  test('returns 503 when regeneration fails without a previous feed', async () => {
+    fs.rmSync(path.join(outputDir, 'python-daily.xml'));
+    regenerate = async () => {
+      throw new Error('GitHub is down');
+    };
+
+    const response = await get(serverWith([{}]), '/feeds/python-daily.xml');
+    expect(response.status).toBe(503);
+  });
+
+  test('lists the served feeds', async () => {
+    const response = await get(serverWith([{}]), '/feeds');
+
+    expect(await response.json()).toEqual({
+      feeds: [
+        {
+          name: 'Python Daily',
+          feeds: { xml: 'http://localhost/feeds/python-daily.xml' },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,319 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import pLimit from 'p-limit';
+import { FeedFormat, FeedOutput } from './types';
+import { logger } from './utils/logger';
+
+export const DEFAULT_SERVER_PORT = 3001;
+export const DEFAULT_SERVER_HOST = '0.0.0.0';
+export const DEFAULT_SERVER_OUTPUT_DIR = './rss';
+
+// URL の拡張子とフィードの形式の対応
+const EXTENSION_FORMATS: Record<string, FeedFormat> = {
+  xml: 'rss2',
+  atom: 'atom1',
+  json: 'json1',
+};
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss2: 'application/rss+xml; charset=utf-8',
+  atom1: 'application/atom+xml; charset=utf-8',
+  json1: 'application/feed+json; charset=utf-8',
+};
+
+const FEED_PATH_PATTERN = /^\/feeds\/([^/]+)\.(xml|atom|json)$/;
+
+/**
+ * 配信するソースのフィード
+ */
+export interface ServedFeed {
+  name: string; // 設定ファイルのソース名
+  slug: string; // URL に使う名前 (例: python-daily)
+  outputs: FeedOutput[];
+  maxAge: number; // 再生成するまでの時間 (ミリ秒)
+}
+
+/**
+ * フィードサーバーの設定
+ */
+export interface FeedServerOptions {
+  port: number;
+  host: string;
+  outputDir: string; // このディレクトリの中のファイルだけを配信する
+  feeds: ServedFeed[];
+  regenerate: (sourceName: string) => Promise<void>; // ソースのフィードを生成し直す
+}
+
+/**
+ * 設定ファイルのフィードを /feeds/:source.(xml|atom|json) で配信するサーバー
+ * 古くなったフィードはリクエスト時に生成し直し、ETag と Last-Modified による
+ * 条件付きリクエストには 304 を返す
+ */
+export class FeedServer {
+  private options: FeedServerOptions;
+  private outputDir: string;
+  // 最後にフィードを生成した (または生成を試みた) 日時
+  private checkedAt = new Map<string, number>();
+  // 生成中のソース (同じソースへのリクエストは同じ生成を待つ)
+  private regenerations = new Map<string, Promise<void>>();
+  // GitHub へのリクエストが集中しないよう、生成は1件ずつ行う
+  private regenerateLimit = pLimit(1);
+  private server?: ReturnType<typeof Bun.serve>;
+
+  constructor(options: FeedServerOptions) {
+    this.options = options;
+    this.outputDir = path.resolve(options.outputDir);
+
+    options.feeds.forEach((feed) => {
+      feed.outputs
+        .filter((output) => !this.isInsideOutputDir(output.path))
+        .forEach((output) => {
+          logger.warn(
+            `${output.path} of ${feed.name} is outside ${options.outputDir} and will not be served`
+          );
+        });
+    });
+  }
+
+  /**
+   * サーバーを起動する
+   */
+  start(): void {
+    this.server = Bun.serve({
+      port: this.options.port,
+      hostname: this.options.host,
+      fetch: (request) => this.handle(request),
+    });
+    logger.info(
+      `Serving ${this.options.feeds.length} feeds at http://${this.options.host}:${this.server.port}/feeds`
+    );
+  }
+
+  /**
+   * サーバーを停止する
+   */
+  stop(): void {
+    this.server?.stop();
+    this.server = undefined;
+  }
+
+  /**
+   * 待ち受けているポート (ポート 0 を指定した場合は割り当てられたポート)
+   */
+  get port(): number | undefined {
+    return this.server?.port;
+  }
+
+  /**
+   * リクエストを処理する
+   */
+  async handle(request: Request): Promise<Response> {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return this.textResponse('Method not allowed', 405, {
+        Allow: 'GET, HEAD',
+      });
+    }
+
+    const { pathname } = new URL(request.url);
+    if (pathname === '/feeds' || pathname === '/feeds/') {
+      return this.listFeeds(request);
+    }
+
+    const match = pathname.match(FEED_PATH_PATTERN);
+    if (!match) {
+      return this.textResponse('Not found', 404);
+    }
+
+    const feed = this.findFeed(match[1]);
+    const output = feed?.outputs.find(
+      (candidate) => candidate.format === EXTENSION_FORMATS[match[2]]
+    );
+    if (!feed || !output) {
+      return this.textResponse('Not found', 404);
+    }
+    if (!this.isInsideOutputDir(output.path)) {
+      logger.warn(
+        `Refused to serve ${output.path} outside the output directory`
+      );
+      return this.textResponse('Forbidden', 403);
+    }
+
+    try {
+      await this.refresh(feed, output);
+    } catch {
+      // 生成に失敗した場合は前回のフィードを配信する
+      if (!fs.existsSync(output.path)) {
+        return this.textResponse('Feed is not available', 503);
+      }
+      logger.warn(`Serving the previous feed of ${feed.name}`);
+    }
+
+    return this.feedResponse(request, output);
+  }
+
+  /**
+   * 名前または slug からソースを探す
+   */
+  private findFeed(requested: string): ServedFeed | undefined {
+    let name: string;
+    try {
+      name = decodeURIComponent(requested);
+    } catch {
+      return undefined;
+    }
+    return this.options.feeds.find(
+      (feed) => feed.slug === name || feed.name === name
+    );
+  }
+
+  /**
+   * ファイルが出力ディレクトリの中にあるかを判定する
+   */
+  private isInsideOutputDir(filePath: string): boolean {
+    const relative = path.relative(this.outputDir, path.resolve(filePath));
+    return (
+      relative !== '' &&
+      !relative.startsWith('..') &&
+      !path.isAbsolute(relative)
+    );
+  }
+
+  /**
+   * フィードが古い場合は生成し直す
+   * 内容が変わらない場合はファイルが更新されないため、生成した日時はメモリーで管理する
+   */
+  private async refresh(feed: ServedFeed, output: FeedOutput): Promise<void> {
+    if (!this.checkedAt.has(feed.name) && fs.existsSync(output.path)) {
+      this.checkedAt.set(feed.name, fs.statSync(output.path).mtimeMs);
+    }
+    const checkedAt = this.checkedAt.get(feed.name);
+    if (
+      checkedAt !== undefined &&
+      fs.existsSync(output.path) &&
+      Date.now() - checkedAt <= feed.maxAge
+    ) {
+      return;
+    }
+
+    let regeneration = this.regenerations.get(feed.name);
+    if (!regeneration) {
+      regeneration = this.regenerateLimit(async () => {
+        logger.info(`Regenerating stale feed: ${feed.name}`);
+        try {
+          await this.options.regenerate(feed.name);
+        } catch (error: any) {
+          logger.error(
+            `Error regenerating feed ${feed.name}: ${error.message}`
+          );
+          throw error;
+        } finally {
+          // 失敗した場合も次の期限までは生成し直さない
+          this.checkedAt.set(feed.name, Date.now());
+          this.regenerations.delete(feed.name);
+        }
+      });
+      this.regenerations.set(feed.name, regeneration);
+    }
+    await regeneration;
+  }
+
+  /**
+   * フィードのファイルを返す (条件付きリクエストには 304 を返す)
+   */
+  private feedResponse(request: Request, output: FeedOutput): Response {
+    const content = fs.readFileSync(output.path, 'utf8');
+    const modifiedAt = fs.statSync(output.path).mtime;
+    const etag = `"${crypto.createHash('sha256').update(content).digest('hex').substring(0, 32)}"`;
+    const headers = {
+      'Content-Type': CONTENT_TYPES[output.format],
+      ETag: etag,
+      'Last-Modified': modifiedAt.toUTCString(),
+      'Cache-Control': 'no-cache',
+      'Access-Control-Allow-Origin': '*',
+    };
+
+    if (isNotModified(request, etag, modifiedAt)) {
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(request.method === 'HEAD' ? null : content, {
+      headers: {
+        ...headers,
+        'Content-Length': String(Buffer.byteLength(content)),
+      },
+    });
+  }
+
+  /**
+   * 配信しているフィードの一覧を返す
+   */
+  private listFeeds(request: Request): Response {
+    const { origin } = new URL(request.url);
+    const feeds = this.options.feeds.map((feed) => ({
+      name: feed.name,
+      feeds: Object.fromEntries(
+        Object.entries(EXTENSION_FORMATS)
+          .filter(([, format]) =>
+            feed.outputs.some(
+              (output) =>
+                output.format === format && this.isInsideOutputDir(output.path)
+            )
+          )
+          .map(([extension]) => [
+            extension,
+            `${origin}/feeds/${feed.slug}.${extension}`,
+          ])
+      ),
+    }));
+    return new Response(JSON.stringify({ feeds }, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  }
+
+  private textResponse(
+    message: string,
+    status: number,
+    headers: Record<string, string> = {}
+  ): Response {
+    return new Response(message, {
+      status,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', ...headers },
+    });
+  }
+}
+
+/**
+ * 条件付きリクエストの条件を満たす (クライアントのフィードが最新である) かを判定する
+ * If-None-Match がある場合は If-Modified-Since より優先する
+ */
+function isNotModified(
+  request: Request,
+  etag: string,
+  modifiedAt: Date
+): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    return (
+      ifNoneMatch.trim() === '*' ||
+      ifNoneMatch
+        .split(',')
+        .map((tag) => tag.trim().replace(/^W\//, ''))
+        .includes(etag)
+    );
+  }
+
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP の日付は秒単位のため、ミリ秒を切り捨てて比較する
+    return (
+      !Number.isNaN(since) &&
+      Math.floor(modifiedAt.getTime() / 1000) * 1000 <= since
+    );
+  }
+
+  return false;
+}
@@ -2,66 +2,428 @@
  * トレンドリポジトリの情報を表す型
  */
 export interface TrendingRepo {
-  name: string;
+  name: string; // owner/repo 形式の名前
+  owner: string; // オーナー名
+  repoName: string; // リポジトリ名
+  rank: number; // トレンドページ上の順位 (1始まり)
   url: string;
   description: string;
   language: string;
+  stars: string; // 表示用の Star 数 (例: "1,234")
+  forks: string; // 表示用の Fork 数
+  todayStars: string; // 表示用の期間内 Star 数 (例: "56 stars today")
+  starCount: number; // Star 数
+  forkCount: number; // Fork 数
+  periodStars: number; // 期間内に増えた Star 数
+  period: TrendPeriod; // periodStars の対象期間
+  avatarUrl: string; // オーナーのアバター画像URL
+  contributors: Contributor[]; // "Built by" に表示されるコントリビューター
+  readme: string;
+  readmeHtml?: string; // サニタイズ済みの README の HTML
+  readmePath?: string; // README のリポジトリ内のパス
+  defaultBranch?: string; // README を取得したブランチ
+  history?: RepoHistory; // 履歴ストアが有効な場合のトレンド履歴
+  license?: string; // ライセンスの SPDX ID (ルールで必要な場合のみ取得)
+  topics?: string[]; // トピック (ルールで必要な場合のみ取得)
+  score?: number; // ルールによるスコア
+  sourceNames?: string[]; // composite ソースでこのリポジトリを含んでいたソース名
+  summary?: string; // LLM による要約
+}
+
+/**
+ * トレンド開発者の情報を表す型
+ */
+export interface TrendingDeveloper {
+  rank: number; // トレンドページ上の順位 (1始まり)
+  name: string; // 表示名 (未設定の場合は login)
+  login: string; // GitHub のユーザー名
+  url: string; // プロフィールURL
+  avatarUrl: string; // アバター画像URL
+  popularRepo?: {
+    name: string; // owner/repo 形式の名前
+    url: string;
+    description: string;
+  };
+}
+
+/**
+ * ソースの種類
+ * composite は他のソースのリポジトリをまとめたフィードを生成する
+ */
+export type SourceKind = 'repositories' | 'developers' | 'composite';
+
+/**
+ * トレンドページの "Built by" に表示されるコントリビューター
+ */
+export interface Contributor {
+  login: string;
+  avatarUrl: string;
+}
+
+/**
+ * 期間内 Star 数の対象期間
+ */
+export type TrendPeriod = 'day' | 'week' | 'month';
+
+/**
+ * リポジトリのトレンド履歴 (ソース単位)
+ */
+export interface RepoHistory {
+  firstSeen: string; // 初めてトレンド入りした日 (YYYY-MM-DD)
+  lastSeen: string; // 最後にトレンド入りした日 (YYYY-MM-DD)
+  daysOnChart: number; // トレンド入りした日数
+  peakRank: number; // 最高順位
+  publishedAt: string; // 今回の連続トレンド入りで初めて記録された日時 (ISO 8601)
+}
+
+/**
+ * 履歴ファイル (JSONL) の1行分のレコード
+ */
+export interface HistoryRecord {
+  source: string; // ソースの名前
+  date: string; // 取得日 (YYYY-MM-DD, UTC)
+  recordedAt: string; // 記録日時 (ISO 8601)
+  rank: number; // トレンドページ上の順位
+  name: string;
+  url: string;
   stars: string;
-  forks: string;
   todayStars: string;
-  readme: string;
+}
+
+/**
+ * ルールの種類
+ * include: 条件に一致しないリポジトリを除外する
+ * exclude: 条件に一致するリポジトリを除外する
+ * boost: 条件に一致するリポジトリのスコアに weight を加える
+ */
+export type RuleAction = 'include' | 'exclude' | 'boost';
+
+/**
+ * ルールで参照できるリポジトリのフィールド
+ */
+export type RuleField =
+  | 'name'
+  | 'owner'
+  | 'repoName'
+  | 'description'
+  | 'language'
+  | 'rank'
+  | 'starCount'
+  | 'forkCount'
+  | 'periodStars'
+  | 'license'
+  | 'topics'
+  | 'builtBy';
+
+/**
+ * リポジトリのフィルタリング/スコアリングのルール
+ * 条件 (equals, in, matches, min, max, exists) はすべて満たした場合に一致とみなす
+ */
+export interface RepoRule {
+  action: RuleAction;
+  field: RuleField;
+  equals?: string | number; // 値が等しい (文字列は大文字小文字を区別しない)
+  in?: (string | number)[]; // 値がいずれかに等しい
+  matches?: string; // 正規表現に一致する (大文字小文字を区別しない)
+  min?: number; // 数値が min 以上
+  max?: number; // 数値が max 以下
+  exists?: boolean; // 値の有無
+  weight?: number; // boost で加えるスコア (デフォルト: 1)
+  name?: string; // ログに表示するルール名
+}
+
+/**
+ * README 要約のプロバイダー
+ * openai: OpenAI 互換の HTTP API (ローカルのモデルサーバーも可)
+ * stub: テスト用の決定的なプロバイダー
+ */
+export type SummaryProviderName = 'openai' | 'stub';
+
+/**
+ * README 要約の設定
+ */
+export interface SummaryConfig {
+  provider: SummaryProviderName;
+  baseUrl?: string; // OpenAI 互換 API のベースURL (デフォルト: https://api.openai.com/v1)
+  model?: string; // モデル名
+  apiKeyEnv?: string; // API キーを読み込む環境変数 (デフォルト: OPENAI_API_KEY)
+  prompt?: string; // プロンプトテンプレート ({{name}} や {{readme}} を置換する)
+  promptsPath?: string; // プロンプトテンプレートを読み込む CSV ファイル
+  maxTokens?: number; // 要約の最大トークン数
+  timeout?: number; // リクエストのタイムアウト (ミリ秒)
+}
+
+/**
+ * フィードの出力形式
+ */
+export type FeedFormat = 'rss2' | 'atom1' | 'json1';
+
+/**
+ * フィードの出力先
+ */
+export interface FeedOutput {
+  format: FeedFormat; // 出力形式 (rss2, atom1, json1)
+  path: string; // 出力先パス
+  url?: string; // 公開URL (省略時は publicBaseUrl と path から生成)
+}
+
+/**
+ * 取得した README の情報
+ */
+export interface ReadmeInfo {
+  content: string; // README の内容
+  path: string; // リポジトリ内のパス (例: docs/README.rst)
+  branch?: string; // README を取得したブランチ
+}
+
+/**
+ * フィードに README を含める方法
+ * full: そのまま, truncate: maxReadmeLength で切り詰める,
+ * excerpt: 構造を解析して抜粋する, none: README を含めない
+ */
+export type ReadmeStrategy = 'full' | 'truncate' | 'excerpt' | 'none';
+
+/**
+ * README 取得のオプション
+ */
+export interface ReadmeOptions {
+  apiUrl?: string; // GitHub REST API のベースURL
+  rawUrl?: string; // raw.githubusercontent.com のベースURL
+  token?: string; // GitHub API のトークン (省略時は環境変数 GITHUB_TOKEN)
+  cacheDir?: string; // README と ETag を保存するキャッシュディレクトリ
+  cacheExpiry?: number; // README のキャッシュの有効期間 (ミリ秒)
+}
+
+/**
+ * キャッシュの保存先
+ * file: キーごとの JSON ファイル, sqlite: cacheDir/cache.sqlite
+ */
+export type CacheBackend = 'file' | 'sqlite';
+
+/**
+ * トレンドページの解析結果の確認の設定
+ */
+export interface ParseCheckOptions {
+  minItems?: number; // これより少ない場合は構造の変更とみなす (デフォルト: 1)
+  debugDir?: string; // 構造の変更とみなしたページの HTML を保存するディレクトリ
+}
+
+/**
+ * HTTP レスポンスの記録と再生
+ * off: 使わない, record: fixtureDir に保存する, replay: fixtureDir から返す (ネットワークを使わない)
+ */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/**
+ * キャッシュの統計情報
+ */
+export interface CacheStats {
+  backend: CacheBackend;
+  location: string; // キャッシュディレクトリまたはデータベースのパス
+  version: number; // キャッシュの形式のバージョン
+  entries: number;
+  totalSize: number; // バイト数
+  maxSize: number; // バイト数
+  categories: Record<string, { entries: number; size: number }>; // キーの接頭辞ごとの内訳
+  oldest?: string; // 最も古いエントリーの保存日時
+  newest?: string; // 最も新しいエントリーの保存日時
 }
 
 /**
  * コマンドラインオプションの型
  */
 export interface CLIOptions {
+  kind: SourceKind;
+  sources?: string[]; // composite の場合にまとめるソースの名前
   language: string;
   timeRange: string;
+  spokenLanguage?: string; // 話し言葉 (ISO 639-1, 例: ja)
   outputPath: string;
   cacheDir: string;
-  cacheExpiry: number;
+  cacheExpiry: number; // トレンドページのキャッシュの有効期間 (ミリ秒)
+  readmeCacheExpiry: number; // README のキャッシュの有効期間 (ミリ秒)
+  cacheBackend: CacheBackend;
+  cacheMaxSize: number; // キャッシュの最大サイズ (バイト)。超えると古いものから削除する
   useCache: boolean;
   maxReadmeLength: number;
+  readmeStrategy: ReadmeStrategy; // README を含める方法
+  stripBadges: boolean; // README のバッジ画像を取り除く
   logLevel: string;
   enableFileLogging: boolean;
   parallel: boolean;
   maxParallelRequests: number;
+  maxConcurrentSources: number; // 同時に処理するソースの数
+  maxRequestsPerHost: number; // ホストごとの同時リクエスト数 (全ソースで共有)
+  requestsPerSecond: number; // ホストごとの1秒あたりのリクエスト数 (全ソースで共有)
+  hostLimits?: Record<string, HostLimit>; // ホストごとの上書き
+  requestTimeout: number; // 1回のリクエストのタイムアウト (ミリ秒)
+  maxRetries: number; // 一時的なエラーで再試行する最大回数
+  userAgent: string;
+  proxy?: string; // HTTP プロキシの URL
+  fixtureMode: FixtureMode;
+  fixtureDir: string; // HTTP レスポンスを記録するディレクトリ
+  historyPath?: string; // 指定した場合はトレンド履歴を記録する
+  minParsedItems: number; // トレンドページから解析できた件数がこれより少ない場合はエラーにする
+  debugDir: string; // 解析できなかったトレンドページの HTML を保存するディレクトリ
+  onlyNew: boolean; // 直近に掲載済みのリポジトリを除外する
+  newWithinDays: number; // onlyNew で除外対象とする日数
+  rules: RepoRule[]; // フィルタリング/スコアリングのルール
+  outputs: FeedOutput[]; // 出力するフィードの一覧
+  publicBaseUrl?: string; // フィードを公開するベースURL
+  siteDir?: string; // 指定した場合はフィードの一覧とソースごとのページを HTML で出力する
+  githubApiUrl: string; // GitHub REST API のベースURL
+  githubToken?: string; // GitHub API のトークン (省略時は環境変数 GITHUB_TOKEN)
+  summary?: SummaryConfig; // README 要約の設定 (省略時は要約しない)
   configPath?: string;
 }
 
 /**
- * プロンプト情報
+ * ホストごとのリクエストの制限
+ */
+export interface HostLimit {
+  concurrency?: number; // 同時リクエスト数
+  requestsPerSecond?: number; // 1秒あたりのリクエスト数
+}
+
+/**
+ * プロンプト情報 (--csv のバッチモードの1行)
  */
 export interface PromptInfo {
-  prompt: string;
-  ref?: string;
+  prompt: string; // 要約に使うプロンプトテンプレート
+  ref?: string; // 対象 (設定ファイルのソース名または owner/repo)
+  output?: string; // 出力先パス
+}
+
+/**
+ * 設定ファイルの1ソース分のフィード生成の結果
+ * updated: フィードを書き換えた, unchanged: 項目が同じため書き換えなかった,
+ * failed: 失敗したため前回のフィードを残した
+ */
+export interface SourceStatus {
+  source: string;
+  status: 'updated' | 'unchanged' | 'failed';
+  items?: number;
+  error?: string;
+}
+
+/**
+ * バッチモードの1行分の処理結果
+ */
+export interface BatchResult {
+  row: number; // CSV の行番号 (ヘッダーを除く1始まり)
+  ref: string;
+  status: 'success' | 'failure';
+  outputPath?: string;
+  error?: string;
+}
+
+/**
+ * 設定ファイルの global と各ソースで指定できるオプション
+ * ソースで指定した値は global の値を上書きする
+ */
+export interface ConfigOptions {
+  cacheDir?: string;
+  cacheExpiry?: number; // トレンドページのキャッシュの有効期間 (ミリ秒)
+  readmeCacheExpiry?: number; // README のキャッシュの有効期間 (ミリ秒)
+  cacheBackend?: CacheBackend;
+  cacheMaxSize?: number; // キャッシュの最大サイズ (バイト)
+  useCache?: boolean;
+  maxReadmeLength?: number;
+  readmeStrategy?: ReadmeStrategy; // README を含める方法 (full, truncate, excerpt, none)
+  stripBadges?: boolean;
+  logLevel?: string;
+  enableFileLogging?: boolean;
+  parallel?: boolean;
+  maxParallelRequests?: number;
+  maxConcurrentSources?: number; // 同時に処理するソースの数 (デフォルト: 3)
+  maxRequestsPerHost?: number; // ホストごとの同時リクエスト数 (デフォルト: 4)
+  requestsPerSecond?: number; // ホストごとの1秒あたりのリクエスト数 (デフォルト: 5)
+  hostLimits?: Record<string, HostLimit>; // ホストごとの上書き (例: api.github.com)
+  requestTimeout?: number; // 1回のリクエストのタイムアウト (ミリ秒, デフォルト: 30000)
+  maxRetries?: number; // 一時的なエラーで再試行する最大回数 (デフォルト: 3)
+  userAgent?: string;
+  proxy?: string; // HTTP プロキシの URL (省略時は環境変数 HTTPS_PROXY / HTTP_PROXY)
+  fixtureMode?: FixtureMode;
+  fixtureDir?: string;
+  historyPath?: string;
+  minParsedItems?: number; // 解析できた件数がこれより少ない場合はフィードを更新しない (デフォルト: 1)
+  debugDir?: string; // 解析できなかったページの保存先 (デフォルト: <cacheDir>/failed-pages)
+  onlyNew?: boolean; // 直近 newWithinDays 日に掲載済みのリポジトリを除外する
+  newWithinDays?: number; // onlyNew で除外対象とする日数 (デフォルト: 7)
+  publicBaseUrl?: string;
+  siteDir?: string; // HTML のダッシュボードの出力先 (省略時は出力しない)
+  githubApiUrl?: string;
+  githubToken?: string; // GitHub API のトークン (例: "${GITHUB_TOKEN}")
+  summary?: SummaryConfig; // README 要約の設定
 }
 
 /**
  * GitHub トレンドソース設定
+ * 実行全体に適用されるオプション (ログ、キャッシュの保存先、HTTP リクエスト) 以外の global のオプションを上書きできる
  */
-export interface TrendSource {
+export interface TrendSource extends Omit<
+  ConfigOptions,
+  | 'logLevel'
+  | 'enableFileLogging'
+  | 'cacheBackend'
+  | 'cacheMaxSize'
+  | 'maxConcurrentSources'
+  | 'maxRequestsPerHost'
+  | 'requestsPerSecond'
+  | 'hostLimits'
+  | 'requestTimeout'
+  | 'maxRetries'
+  | 'userAgent'
+  | 'proxy'
+  | 'fixtureMode'
+  | 'fixtureDir'
+  | 'siteDir'
+> {
   name: string; // ソースの名前
-  language: string; // プログラミング言語
-  timeRange: string; // 時間範囲 (daily, weekly, monthly)
-  outputPath: string; // 出力先パス
+  kind?: SourceKind; // ソースの種類 (デフォルト: repositories)
+  sources?: string[]; // composite の場合にまとめるソースの名前
+  language?: string; // プログラミング言語 (composite 以外では必須)
+  timeRange?: string; // 時間範囲 (daily, weekly, monthly / composite 以外では必須)
+  spokenLanguage?: string; // 話し言葉で絞り込む場合の ISO 639-1 コード (例: ja)
+  outputPath?: string; // 出力先パス (outputs を省略した場合の RSS 2.0 出力先)
+  outputs?: FeedOutput[]; // 複数形式で出力する場合の出力先一覧
   baseUrl?: string; // デフォルト以外のURLを使用する場合
+  rules?: RepoRule[]; // フィルタリング/スコアリングのルール
 }
 
 /**
  * 設定ファイル
  */
 export interface ConfigFile {
-  global: {
-    cacheDir: string;
-    cacheExpiry: number;
-    useCache: boolean;
-    maxReadmeLength: number;
-    logLevel: string;
-    enableFileLogging: boolean;
-    parallel: boolean;
-    maxParallelRequests: number;
-  };
+  $schema?: string; // エディター向けの JSON Schema のパス
+  include?: string[]; // 読み込む他の設定ファイル (このファイルからの相対パス)
+  global: ConfigOptions;
   sources: TrendSource[];
+  server?: ServerConfig; // serve コマンドの設定
+  opml?: OpmlConfig; // フィードの一覧の OPML の設定
+}
+
+/**
+ * OPML のフィードをまとめる単位
+ */
+export type OpmlGroupBy = 'timeRange' | 'language';
+
+/**
+ * フィードの一覧の OPML の設定
+ */
+export interface OpmlConfig {
+  outputPath?: string; // 指定した場合は --config での実行時に OPML を出力する
+  title?: string; // OPML のタイトル
+  groupBy?: OpmlGroupBy; // フィードをまとめる単位 (デフォルト: timeRange)
+  publicBaseUrl?: string; // フィードのURLに使うベースURL (省略時は各ソースの publicBaseUrl)
+}
+
+/**
+ * フィードサーバーの設定
+ */
+export interface ServerConfig {
+  port?: number; // 待ち受けるポート (デフォルト: 3001)
+  host?: string; // 待ち受けるホスト (デフォルト: 0.0.0.0)
+  outputDir?: string; // 配信を許可するディレクトリ (デフォルト: ./rss)
+  staleAfter?: number; // フィードを再生成するまでの時間 (ミリ秒, 省略時はソースの cacheExpiry)
 }
@@ -0,0 +1,195 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  setSystemTime,
+  spyOn,
+  test,
+} from 'bun:test';
+import { Database } from 'bun:sqlite';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CacheBackend } from '../types';
+import {
+  CACHE_BACKENDS,
+  CACHE_VERSION,
+  CacheStore,
+  FileCacheStore,
+  SqliteCacheStore,
+} from './cache';
+import { logger } from './logger';
+
+const START = new Date('2026-01-01T00:00:00Z').getTime();
+
+// バックエンドごとのキャッシュの作成方法
+const STORES: Record<
+  CacheBackend,
+  (cacheDir: string, maxSize?: number) => CacheStore
+> = {
+  file: (cacheDir, maxSize) => new FileCacheStore(cacheDir, maxSize),
+  sqlite: (cacheDir, maxSize) =>
+    new SqliteCacheStore(path.join(cacheDir, 'cache.sqlite'), maxSize),
+};
+
+// 古いバージョンの形式のエントリーを書き込む
+const OLD_ENTRY_WRITERS: Record<CacheBackend, (cacheDir: string) => void> = {
+  file: (cacheDir) => {
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(cacheDir, 'trending_old.json'),
+      JSON.stringify({
+        version: CACHE_VERSION - 1,
+        timestamp: Date.now(),
+        data: ['old'],
+      })
+    );
+  },
+  sqlite: (cacheDir) => {
+    STORES.sqlite(cacheDir);
+    const db = new Database(path.join(cacheDir, 'cache.sqlite'));
+    db.query(
+      `INSERT INTO cache_entries (key, version, timestamp, accessed_at, size, data)
+      VALUES (?, ?, ?, ?, ?, ?)`
+    ).run('trending_old', CACHE_VERSION - 1, START, START, 7, '["old"]');
+    db.close();
+  },
+};
+
+/**
+ * 指定した秒数だけ経過した時刻にする
+ */
+function at(seconds: number) {
+  setSystemTime(new Date(START + seconds * 1000));
+}
+
+let cacheDir: string;
+
+beforeEach(() => {
+  spyOn(logger, 'info').mockImplementation(() => {});
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+  at(0);
+});
+
+afterEach(() => {
+  setSystemTime();
+  mock.restore();
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+describe.each(CACHE_BACKENDS)('%s cache', (backend) => {
+  test('returns entries until they expire', () => {
+    const store = STORES[backend](cacheDir);
+    store.set('trending_python', [{ name: 'octo/repo' }]);
+
+    at(30);
+    expect(store.get<object>('trending_python', 60000)).toEqual([
+      { name: 'octo/repo' },
+    ]);
+
+    at(120);
+    expect(store.get<object>('trending_python', 60000)).toBeNull();
+    // 期限切れのエントリーは ETag による再検証のために残す
+    expect(store.get<object>('trending_python', Infinity)).toEqual([
+      { name: 'octo/repo' },
+    ]);
+    expect(store.get('trending_missing', Infinity)).toBeNull();
+  });
+
+  test('evicts the least recently used entries over the maximum size', () => {
+    const store = STORES[backend](cacheDir, 3500);
+    const data = 'x'.repeat(1000);
+
+    store.set('readme_a', data);
+    at(1);
+    store.set('readme_b', data);
+    at(2);
+    store.set('readme_c', data);
+    at(3);
+    store.get('readme_a', Infinity);
+    at(4);
+    store.set('readme_d', data);
+
+    expect(store.get('readme_b', Infinity)).toBeNull();
+    expect(store.get<string>('readme_a', Infinity)).toBe(data);
+    expect(store.get<string>('readme_c', Infinity)).toBe(data);
+    expect(store.get<string>('readme_d', Infinity)).toBe(data);
+    expect(store.stats().entries).toBe(3);
+  });
+
+  test('counts replaced and deleted entries only once', () => {
+    const store = STORES[backend](cacheDir, 3500);
+    const data = 'x'.repeat(1000);
+
+    store.set('readme_a', data);
+    store.set('readme_b', data);
+    store.set('readme_b', data);
+    store.set('readme_c', data);
+    store.delete('readme_c');
+    store.set('readme_d', data);
+
+    expect(store.stats().entries).toBe(3);
+    expect(store.get<string>('readme_a', Infinity)).toBe(data);
+  });
+
+  test('discards entries from an older version', () => {
+    OLD_ENTRY_WRITERS[backend](cacheDir);
+    const store = STORES[backend](cacheDir);
+
+    expect(store.get('trending_old', Infinity)).toBeNull();
+    expect(store.stats().entries).toBe(0);
+  });
+
+  test('clears all entries', () => {
+    const store = STORES[backend](cacheDir);
+    store.set('readme_a', 'a');
+    store.set('summary_b', 'b');
+
+    expect(store.stats().categories).toEqual({
+      readme: { entries: 1, size: expect.any(Number) },
+      summary: { entries: 1, size: expect.any(Number) },
+    });
+    expect(store.clear()).toBe(2);
+    expect(store.stats().entries).toBe(0);
+  });
+});
+
+describe('FileCacheStore', () => {
+  test('reads the cache directory only once for many writes', () => {
+    const store = new FileCacheStore(cacheDir, 3500);
+    const readdir = spyOn(fs, 'readdirSync');
+
+    for (let index = 0; index < 20; index++) {
+      at(index);
+      store.set(`readme_${index}`, 'x'.repeat(1000));
+    }
+
+    expect(readdir).toHaveBeenCalledTimes(1);
+    expect(store.stats().entries).toBe(3);
+  });
+
+  test('evicts the entries written by earlier runs', async () => {
+    // 既存のファイルの最終アクセス日時は実際の時刻で比較する
+    setSystemTime();
+    const data = 'x'.repeat(1000);
+    const earlier = new FileCacheStore(cacheDir, 3500);
+    earlier.set('readme_a', data);
+    await Bun.sleep(5);
+    earlier.set('readme_b', data);
+
+    await Bun.sleep(5);
+    const store = new FileCacheStore(cacheDir, 3500);
+    store.set('readme_c', data);
+    await Bun.sleep(5);
+    store.set('readme_d', data);
+
+    expect(
+      fs
+        .readdirSync(cacheDir)
+        .map((file) => file.replace(/\.json$/, ''))
+        .sort()
+    ).toEqual(['readme_b', 'readme_c', 'readme_d']);
+  });
+});
@@ -0,0 +1,430 @@
+import fs from 'fs';
+import path from 'path';
+import { Database } from 'bun:sqlite';
+import { CacheBackend, CacheStats } from '../types';
+import { logger } from './logger';
+
+// キャッシュの形式のバージョン (形式を変更した場合に上げると古いエントリーは無効になる)
+export const CACHE_VERSION = 2;
+
+export const CACHE_BACKENDS: CacheBackend[] = ['file', 'sqlite'];
+
+export const DEFAULT_CACHE_MAX_SIZE = 100 * 1024 * 1024; // 100MB
+
+/**
+ * キャッシュのエントリー
+ */
+interface CacheEntry<T> {
+  version: number;
+  timestamp: number; // 保存日時 (有効期間の判定に使う)
+  data: T;
+}
+
+/**
+ * 統計情報とエビクションに使うエントリーの情報
+ */
+interface EntryInfo {
+  key: string;
+  size: number;
+  timestamp: number;
+  accessedAt: number;
+}
+
+/**
+ * キャッシュの保存先
+ */
+export interface CacheStore {
+  readonly backend: CacheBackend;
+  get<T>(key: string, maxAge: number): T | null;
+  set<T>(key: string, data: T): void;
+  delete(key: string): void;
+  clear(): number; // 削除したエントリーの数を返す
+  stats(): CacheStats;
+}
+
+/**
+ * キーの接頭辞 (trending, readme, blob, summary など) を返す
+ */
+function categoryOf(key: string): string {
+  return key.split('_')[0];
+}
+
+/**
+ * エントリーの一覧から統計情報を集計する
+ */
+function summarizeEntries(
+  backend: CacheBackend,
+  location: string,
+  maxSize: number,
+  entries: EntryInfo[]
+): CacheStats {
+  const categories: CacheStats['categories'] = {};
+  entries.forEach((entry) => {
+    const category = (categories[categoryOf(entry.key)] ||= {
+      entries: 0,
+      size: 0,
+    });
+    category.entries++;
+    category.size += entry.size;
+  });
+
+  const timestamps = entries.map((entry) => entry.timestamp);
+  return {
+    backend,
+    location,
+    version: CACHE_VERSION,
+    entries: entries.length,
+    totalSize: entries.reduce((total, entry) => total + entry.size, 0),
+    maxSize,
+    categories,
+    oldest: timestamps.length
+      ? new Date(Math.min(...timestamps)).toISOString()
+      : undefined,
+    newest: timestamps.length
+      ? new Date(Math.max(...timestamps)).toISOString()
+      : undefined,
+  };
+}
+
+/**
+ * 最大サイズを超えた分を最終アクセス日時の古いエントリーから削除する (LRU)
+ * @returns 削除するエントリーのキー
+ */
+function selectEvictions(entries: EntryInfo[], maxSize: number): string[] {
+  let totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+  if (totalSize <= maxSize) {
+    return [];
+  }
+
+  const evicted: string[] = [];
+  [...entries]
+    .sort((a, b) => a.accessedAt - b.accessedAt)
+    .forEach((entry) => {
+      if (totalSize > maxSize) {
+        evicted.push(entry.key);
+        totalSize -= entry.size;
+      }
+    });
+  return evicted;
+}
+
+/**
+ * キーごとに JSON ファイルに保存するキャッシュ
+ * 最終アクセス日時はファイルの更新日時で管理する
+ */
+export class FileCacheStore implements CacheStore {
+  readonly backend = 'file';
+  private cacheDir: string;
+  private maxSize: number;
+  // エントリーの情報と合計サイズ (最初の書き込みでディレクトリから読み込み、以降は操作ごとに更新する)
+  private index: Map<string, EntryInfo> | null = null;
+  private totalSize = 0;
+
+  constructor(cacheDir: string, maxSize: number = DEFAULT_CACHE_MAX_SIZE) {
+    this.cacheDir = cacheDir;
+    this.maxSize = maxSize;
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  get<T>(key: string, maxAge: number): T | null {
+    const filePath = this.filePath(key);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const entry: CacheEntry<T> = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+    // 形式の異なる古いバージョンのエントリーは削除する
+    if (entry.version !== CACHE_VERSION) {
+      logger.info(`Discarding cache entry from an older version: ${key}`);
+      this.delete(key);
+      return null;
+    }
+
+    if (Date.now() - entry.timestamp > maxAge) {
+      logger.info(`Cache expired for key: ${key}`);
+      return null;
+    }
+
+    // LRU のために最終アクセス日時を更新する
+    const now = new Date();
+    fs.utimesSync(filePath, now, now);
+    const info = this.index?.get(key);
+    if (info) {
+      info.accessedAt = now.getTime();
+    }
+    return entry.data;
+  }
+
+  set<T>(key: string, data: T): void {
+    if (!fs.existsSync(this.cacheDir)) {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      logger.info(`Created cache directory: ${this.cacheDir}`);
+    }
+
+    const index = this.loadIndex();
+    const entry: CacheEntry<T> = {
+      version: CACHE_VERSION,
+      timestamp: Date.now(),
+      data,
+    };
+    const json = JSON.stringify(entry);
+    fs.writeFileSync(this.filePath(key), json);
+
+    const size = Buffer.byteLength(json);
+    this.totalSize += size - (index.get(key)?.size ?? 0);
+    index.set(key, {
+      key,
+      size,
+      timestamp: entry.timestamp,
+      accessedAt: entry.timestamp,
+    });
+
+    if (this.totalSize > this.maxSize) {
+      this.evict();
+    }
+  }
+
+  delete(key: string): void {
+    fs.rmSync(this.filePath(key), { force: true });
+    const info = this.index?.get(key);
+    if (info) {
+      this.totalSize -= info.size;
+      this.index!.delete(key);
+    }
+  }
+
+  clear(): number {
+    const entries = this.entries();
+    entries.forEach((entry) => this.delete(entry.key));
+    return entries.length;
+  }
+
+  stats(): CacheStats {
+    return summarizeEntries(
+      this.backend,
+      this.cacheDir,
+      this.maxSize,
+      this.entries()
+    );
+  }
+
+  private entries(): EntryInfo[] {
+    if (!fs.existsSync(this.cacheDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.cacheDir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => {
+        const stat = fs.statSync(path.join(this.cacheDir, file));
+        return {
+          key: file.replace(/\.json$/, ''),
+          size: stat.size,
+          timestamp: stat.birthtimeMs || stat.mtimeMs,
+          accessedAt: stat.mtimeMs,
+        };
+      });
+  }
+
+  /**
+   * エントリーの情報を返す (書き込みごとにディレクトリを読み直さないよう一度だけ読み込む)
+   */
+  private loadIndex(): Map<string, EntryInfo> {
+    if (!this.index) {
+      const entries = this.entries();
+      this.index = new Map(entries.map((entry) => [entry.key, entry]));
+      this.totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+    }
+    return this.index;
+  }
+
+  private evict(): void {
+    const evicted = selectEvictions(
+      Array.from(this.loadIndex().values()),
+      this.maxSize
+    );
+    evicted.forEach((key) => this.delete(key));
+    if (evicted.length > 0) {
+      logger.info(
+        `Evicted ${evicted.length} least recently used cache entries from ${this.cacheDir}`
+      );
+    }
+  }
+}
+
+/**
+ * SQLite (bun:sqlite) のデータベースに保存するキャッシュ
+ */
+export class SqliteCacheStore implements CacheStore {
+  readonly backend = 'sqlite';
+  private dbPath: string;
+  private maxSize: number;
+  private db: Database;
+
+  constructor(dbPath: string, maxSize: number = DEFAULT_CACHE_MAX_SIZE) {
+    this.dbPath = dbPath;
+    this.maxSize = maxSize;
+
+    const dbDir = path.dirname(dbPath);
+    if (!fs.existsSync(dbDir)) {
+      fs.mkdirSync(dbDir, { recursive: true });
+      logger.info(`Created cache directory: ${dbDir}`);
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.run(
+      `CREATE TABLE IF NOT EXISTS cache_entries (
+        key TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        accessed_at INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`
+    );
+
+    // 形式の異なる古いバージョンのエントリーは削除する
+    const { changes } = this.db
+      .query('DELETE FROM cache_entries WHERE version != ?')
+      .run(CACHE_VERSION);
+    if (changes > 0) {
+      logger.info(`Discarded ${changes} cache entries from an older version`);
+    }
+  }
+
+  get<T>(key: string, maxAge: number): T | null {
+    const row = this.db
+      .query('SELECT timestamp, data FROM cache_entries WHERE key = ?')
+      .get(key) as { timestamp: number; data: string } | null;
+    if (!row) {
+      return null;
+    }
+
+    if (Date.now() - row.timestamp > maxAge) {
+      logger.info(`Cache expired for key: ${key}`);
+      return null;
+    }
+
+    // LRU のために最終アクセス日時を更新する
+    this.db
+      .query('UPDATE cache_entries SET accessed_at = ? WHERE key = ?')
+      .run(Date.now(), key);
+    return JSON.parse(row.data);
+  }
+
+  set<T>(key: string, data: T): void {
+    const json = JSON.stringify(data);
+    const now = Date.now();
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO cache_entries (key, version, timestamp, accessed_at, size, data)
+        VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(key, CACHE_VERSION, now, now, Buffer.byteLength(json), json);
+    this.evict();
+  }
+
+  delete(key: string): void {
+    this.db.query('DELETE FROM cache_entries WHERE key = ?').run(key);
+  }
+
+  clear(): number {
+    return this.db.query('DELETE FROM cache_entries').run().changes;
+  }
+
+  stats(): CacheStats {
+    return summarizeEntries(
+      this.backend,
+      this.dbPath,
+      this.maxSize,
+      this.entries()
+    );
+  }
+
+  private entries(): EntryInfo[] {
+    return this.db
+      .query(
+        'SELECT key, size, timestamp, accessed_at AS accessedAt FROM cache_entries'
+      )
+      .all() as EntryInfo[];
+  }
+
+  private evict(): void {
+    // 最大サイズ以内であればエントリーの一覧を読み込まない
+    const { totalSize } = this.db
+      .query('SELECT COALESCE(SUM(size), 0) AS totalSize FROM cache_entries')
+      .get() as { totalSize: number };
+    if (totalSize <= this.maxSize) {
+      return;
+    }
+
+    const evicted = selectEvictions(this.entries(), this.maxSize);
+    evicted.forEach((key) => this.delete(key));
+    if (evicted.length > 0) {
+      logger.info(
+        `Evicted ${evicted.length} least recently used cache entries from ${this.dbPath}`
+      );
+    }
+  }
+}
+
+// 全体で使うキャッシュの設定
+let cacheSettings: { backend: CacheBackend; maxSize: number } = {
+  backend: 'file',
+  maxSize: DEFAULT_CACHE_MAX_SIZE,
+};
+const stores = new Map<string, CacheStore>();
+
+/**
+ * キャッシュの保存先と最大サイズを設定する
+ */
+export function configureCache(
+  settings: Partial<{ backend: CacheBackend; maxSize: number }>
+): void {
+  if (settings.backend && !CACHE_BACKENDS.includes(settings.backend)) {
+    throw new Error(
+      `Unsupported cache backend: ${settings.backend} (expected one of ${CACHE_BACKENDS.join(', ')})`
+    );
+  }
+  cacheSettings = {
+    backend: settings.backend || cacheSettings.backend,
+    maxSize: settings.maxSize || cacheSettings.maxSize,
+  };
+}
+
+/**
+ * キャッシュディレクトリに対応するキャッシュを返す
+ */
+export function getCacheStore(cacheDir: string): CacheStore {
+  const { backend, maxSize } = cacheSettings;
+  const storeKey = `${backend}:${path.resolve(cacheDir)}:${maxSize}`;
+
+  let store = stores.get(storeKey);
+  if (!store) {
+    store =
+      backend === 'sqlite'
+        ? new SqliteCacheStore(path.join(cacheDir, 'cache.sqlite'), maxSize)
+        : new FileCacheStore(cacheDir, maxSize);
+    stores.set(storeKey, store);
+  }
+  return store;
+}
+
+/**
+ * バイト数を読みやすい単位に変換する
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,252 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { interpolateEnv, loadConfig, loadPromptsFromCSV } from './helpers';
+import { logger } from './logger';
+
+describe('loadPromptsFromCSV', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+    spyOn(logger, 'info').mockImplementation(() => {});
+    spyOn(logger, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const csvFile = (content: string) => {
+    const filePath = path.join(dir, 'prompts.csv');
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  test('loads the prompt, ref and output columns', () => {
+    const filePath = csvFile(
+      '\uFEFFPrompt,ref,output\r\n' +
+        '"Summarize {{name}}, briefly",Python Daily,out/python.md\r\n' +
+        '"Say ""hi""",,\r\n' +
+        ',octo/repo,skipped.md\r\n'
+    );
+
+    expect(loadPromptsFromCSV(filePath)).toEqual([
+      {
+        prompt: 'Summarize {{name}}, briefly',
+        ref: 'Python Daily',
+        output: 'out/python.md',
+      },
+      { prompt: 'Say "hi"', ref: undefined, output: undefined },
+    ]);
+  });
+
+  test('throws for a missing file', () => {
+    expect(() => loadPromptsFromCSV(path.join(dir, 'missing.csv'))).toThrow(
+      'File not found'
+    );
+  });
+
+  test('throws for an unterminated quote', () => {
+    const filePath = csvFile('prompt,ref\n"Summarize {{name}},python\n');
+    expect(() => loadPromptsFromCSV(filePath)).toThrow(
+      'Unterminated quoted field in CSV'
+    );
+  });
+
+  test('throws without a prompt column', () => {
+    const filePath = csvFile('ref,output\npython,out.md\n');
+    expect(() => loadPromptsFromCSV(filePath)).toThrow(
+      'CSV file must contain a "prompt" column'
+    );
+  });
+});
+
+describe('interpolateEnv', () => {
+  const env = { TOKEN: 'secret', EMPTY: '' };
+
+  test('replaces the variables in nested strings', () => {
+    expect(
+      interpolateEnv(
+        {
+          global: { githubToken: '${TOKEN}', cacheExpiry: 60000 },
+          sources: [{ name: 'a', outputPath: '${DIR:-feeds}/${TOKEN}.xml' }],
+        },
+        '',
+        env
+      )
+    ).toEqual({
+      global: { githubToken: 'secret', cacheExpiry: 60000 },
+      sources: [{ name: 'a', outputPath: 'feeds/secret.xml' }],
+    });
+  });
+
+  test('prefers a set variable to the default, even when it is empty', () => {
+    expect(interpolateEnv('[${EMPTY:-default}]', '', env)).toBe('[]');
+    expect(interpolateEnv('[${MISSING:-}]', '', env)).toBe('[]');
+  });
+
+  test('throws with the location of a missing variable', () => {
+    expect(() =>
+      interpolateEnv({ sources: [{ name: '${MISSING}' }] }, '', env)
+    ).toThrow('sources[0].name: environment variable MISSING is not set');
+    expect(() => interpolateEnv('${MISSING}', '', env)).toThrow(
+      '(root): environment variable MISSING is not set'
+    );
+  });
+});
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+    spyOn(logger, 'info').mockImplementation(() => {});
+    spyOn(logger, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    delete process.env.TREND_TEST_DIR;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (name: string, content: unknown) => {
+    const filePath = path.join(dir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      filePath,
+      typeof content === 'string' ? content : JSON.stringify(content)
+    );
+    return filePath;
+  };
+
+  const source = (name: string, overrides: Record<string, unknown> = {}) => ({
+    name,
+    language: '',
+    timeRange: 'daily',
+    outputPath: `feeds/${name}.xml`,
+    ...overrides,
+  });
+
+  test('loads a YAML config and interpolates the environment', () => {
+    process.env.TREND_TEST_DIR = 'public';
+    const configPath = writeConfig(
+      'config.yml',
+      [
+        'global:',
+        '  cacheExpiry: 60000',
+        'sources:',
+        '  - name: Python Daily',
+        '    language: python',
+        '    timeRange: daily',
+        '    outputPath: ${TREND_TEST_DIR}/python.xml',
+      ].join('\n')
+    );
+
+    expect(loadConfig(configPath)).toEqual({
+      global: { cacheExpiry: 60000 },
+      sources: [
+        {
+          name: 'Python Daily',
+          language: 'python',
+          timeRange: 'daily',
+          outputPath: 'public/python.xml',
+        },
+      ],
+      server: {},
+      opml: {},
+    });
+  });
+
+  test('merges the included files before the including file', () => {
+    writeConfig('shared/base.json', {
+      global: { cacheExpiry: 1000, useCache: false },
+      sources: [source('base')],
+      server: { port: 8080 },
+    });
+    const configPath = writeConfig('config.json', {
+      include: ['shared/base.json'],
+      global: { cacheExpiry: 2000 },
+      sources: [source('main')],
+      opml: { title: 'Feeds' },
+    });
+
+    const config = loadConfig(configPath);
+
+    expect(config.global).toEqual({ cacheExpiry: 2000, useCache: false });
+    expect(config.sources.map((source) => source.name)).toEqual([
+      'base',
+      'main',
+    ]);
+    expect(config.server).toEqual({ port: 8080 });
+    expect(config.opml).toEqual({ title: 'Feeds' });
+  });
+
+  test('rejects files that include each other', () => {
+    writeConfig('a.json', { include: ['b.json'], sources: [source('a')] });
+    writeConfig('b.json', { include: ['a.json'] });
+
+    expect(() => loadConfig(path.join(dir, 'a.json'))).toThrow(
+      `Config file ${path.join(dir, 'a.json')} is included recursively`
+    );
+  });
+
+  test('reports the schema errors with the file name', () => {
+    const configPath = writeConfig('config.json', {
+      global: { cacheExpiy: 1000 },
+      sources: [source('a', { timeRange: 'hourly', logLevel: 'DEBUG' })],
+    });
+
+    expect(() => loadConfig(configPath)).toThrow(
+      `Invalid config file ${configPath}:\n` +
+        '  - global.cacheExpiy: unknown property (did you mean "cacheExpiry"?)\n' +
+        '  - sources[0].timeRange: expected one of "daily", "weekly", "monthly", got "hourly"\n' +
+        '  - sources[0].logLevel: unknown property'
+    );
+  });
+
+  test('reports the errors between sources', () => {
+    const configPath = writeConfig('config.json', {
+      sources: [
+        source('a', { language: undefined, outputPath: undefined }),
+        source('a'),
+        { name: 'all', kind: 'composite', sources: ['a', 'missing', 'all'] },
+        source('b', {
+          rules: [{ action: 'exclude', field: 'name', matches: '(' }],
+        }),
+      ],
+    });
+
+    expect(() => loadConfig(configPath)).toThrow(
+      [
+        'Invalid config:',
+        '  - sources[0]: missing required property "language"; use "" for all languages (source "a")',
+        '  - sources[0]: missing required property "outputPath" or "outputs" (source "a")',
+        '  - sources[1].name: duplicate source name (source "a")',
+        '  - sources[2].sources: unknown source "missing" (source "all")',
+        '  - sources[2].sources: can only reference repository sources, but "all" is of kind "composite" (source "all")',
+        '  - sources[2]: missing required property "outputPath" or "outputs" (source "all")',
+        '  - sources[3].rules[0].matches: invalid pattern in rule "exclude name matches /(/i"',
+      ].join('\n')
+    );
+  });
+
+  test('rejects a config without sources', () => {
+    const configPath = writeConfig('config.json', { global: {} });
+
+    expect(() => loadConfig(configPath)).toThrow(
+      'sources: expected at least one source'
+    );
+  });
+});
@@ -1,7 +1,17 @@
 import fs from 'fs';
 import path from 'path';
-import { TrendingRepo, ConfigFile } from '../types';
+import YAML from 'yaml';
+import {
+  TrendingRepo,
+  ConfigFile,
+  SourceKind,
+  SummaryConfig,
+  PromptInfo,
+} from '../types';
+import { getCacheStore } from './cache';
 import { logger } from './logger';
+import { describeRule } from './rules';
+import { buildConfigSchema, validateSchema } from './schema';
 
 /**
  * HTML エスケープ用のヘルパー関数
@@ -15,6 +25,51 @@ export function escapeHtml(text: string): string {
     .replace(/'/g, '&#039;');
 }
 
+/**
+ * ファイル名や URL に使う文字列を生成する (例: "Python Daily" -> python-daily)
+ */
+export function toSlug(text: string, fallback: string = 'item'): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || fallback
+  );
+}
+
+/**
+ * 一時ファイルに書き込んでから名前を変更することで、ファイルを置き換える
+ * 書き込みの途中で失敗しても既存のファイルは壊れない
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.tmp`
+  );
+  try {
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * 内容が変わった場合だけファイルを書き込む
+ * @returns 書き込んだかどうか
+ */
+export function writeFileIfChanged(filePath: string, content: string): boolean {
+  if (
+    fs.existsSync(filePath) &&
+    fs.readFileSync(filePath, 'utf8') === content
+  ) {
+    return false;
+  }
+  writeFileAtomic(filePath, content);
+  return true;
+}
+
 /**
  * キャッシュディレクトリが存在しない場合は作成する
  */
@@ -32,22 +87,14 @@ export function ensureCacheDirectory(cacheDir: string = '.cache'): void {
 /**
  * JSONデータをキャッシュに保存する
  */
-export function saveToCache(
+export function saveToCache<T = TrendingRepo[]>(
   key: string,
-  data: TrendingRepo[],
+  data: T,
   cacheDir: string = '.cache'
 ): void {
   try {
-    ensureCacheDirectory(cacheDir);
-    const filePath = path.join(cacheDir, `${key}.json`);
-    fs.writeFileSync(
-      filePath,
-      JSON.stringify({
-        timestamp: Date.now(),
-        data,
-      })
-    );
-    logger.info(`Saved data to cache: ${filePath}`);
+    getCacheStore(cacheDir).set(key, data);
+    logger.info(`Saved data to cache: ${key}`);
   } catch (error: any) {
     logger.warn(`Failed to save to cache: ${error.message}`);
   }
@@ -56,80 +103,129 @@ export function saveToCache(
 /**
  * キャッシュからデータを読み込む
  */
-export function loadFromCache(
+export function loadFromCache<T = TrendingRepo[]>(
   key: string,
   maxAge: number = 3600000, // デフォルトは1時間
   cacheDir: string = '.cache'
-): TrendingRepo[] | null {
+): T | null {
   try {
-    const filePath = path.join(cacheDir, `${key}.json`);
-    if (!fs.existsSync(filePath)) {
-      return null;
+    const data = getCacheStore(cacheDir).get<T>(key, maxAge);
+    if (data !== null) {
+      logger.info(`Loaded data from cache: ${key}`);
     }
+    return data;
+  } catch (error: any) {
+    logger.warn(`Failed to load from cache: ${error.message}`);
+    return null;
+  }
+}
 
-    const content = fs.readFileSync(filePath, 'utf8');
-    const cache = JSON.parse(content);
+/**
+ * CSV (RFC 4180) を解析して行ごとの列の配列を返す
+ * ダブルクォートで囲まれた列ではカンマ、改行、"" (ダブルクォートのエスケープ) を扱える
+ */
+export function parseCSV(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
 
-    // キャッシュが古いかチェック
-    if (Date.now() - cache.timestamp > maxAge) {
-      logger.info(`Cache expired for key: ${key}`);
-      return null;
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
     }
 
-    logger.info(`Loaded data from cache: ${filePath}`);
-    return cache.data;
-  } catch (error: any) {
-    logger.warn(`Failed to load from cache: ${error.message}`);
-    return null;
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
   }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+
+  // 最終行 (末尾に改行がない場合)
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 空行を取り除く
+  return rows.filter((columns) => columns.some((column) => column.trim()));
 }
 
 /**
  * CSVファイルからプロンプトを読み込む
+ * prompt 列は必須で、ref 列 (ソース名または owner/repo) と output 列 (出力先パス) は任意
+ * ファイルを読めない場合や CSV として解析できない場合はエラーにする
  */
-export function loadPromptsFromCSV(
-  filePath: string
-): { prompt: string; ref?: string }[] {
+export function loadPromptsFromCSV(filePath: string): PromptInfo[] {
   try {
     if (!fs.existsSync(filePath)) {
       throw new Error(`File not found: ${filePath}`);
     }
 
-    const content = fs.readFileSync(filePath, 'utf8');
-    const lines = content.trim().split('\n');
+    const content = fs.readFileSync(filePath, 'utf8').replace(/^\uFEFF/, '');
+    const [header = [], ...rows] = parseCSV(content);
 
-    // ヘッダー行を取得し、列のインデックスを決定
-    const header = lines[0].split(',');
-    const promptIndex = header.findIndex(
-      (col) => col.trim().toLowerCase() === 'prompt'
-    );
-    const refIndex = header.findIndex(
-      (col) => col.trim().toLowerCase() === 'ref'
-    );
+    // ヘッダー行から列のインデックスを決定
+    const columnIndex = (name: string) =>
+      header.findIndex((col) => col.trim().toLowerCase() === name);
+    const promptIndex = columnIndex('prompt');
+    const refIndex = columnIndex('ref');
+    const outputIndex = columnIndex('output');
 
     if (promptIndex === -1) {
       throw new Error('CSV file must contain a "prompt" column');
     }
 
-    const prompts = [];
-
-    // ヘッダーをスキップして2行目から処理
-    for (let i = 1; i < lines.length; i++) {
-      const columns = lines[i].split(',').map((col) => col.trim());
+    const prompts: PromptInfo[] = [];
 
-      const prompt = columns[promptIndex];
-      const ref = refIndex !== -1 ? columns[refIndex] : undefined;
+    rows.forEach((columns) => {
+      const prompt = columns[promptIndex]?.trim();
+      const ref = refIndex !== -1 ? columns[refIndex]?.trim() : undefined;
+      const output =
+        outputIndex !== -1 ? columns[outputIndex]?.trim() : undefined;
 
       if (prompt) {
-        prompts.push({ prompt, ref });
+        prompts.push({
+          prompt,
+          ref: ref || undefined,
+          output: output || undefined,
+        });
       }
-    }
+    });
 
     logger.info(`Loaded ${prompts.length} prompts from CSV: ${filePath}`);
     return prompts;
   } catch (error: any) {
     logger.error(`Error loading prompts from CSV: ${error.message}`);
-    return [];
+    throw error;
   }
 }
 
@@ -139,71 +235,199 @@ export function loadPromptsFromCSV(
 export function generateCacheKey(
   language: string,
   timeRange: string,
-  baseUrl?: string
+  baseUrl?: string,
+  kind: SourceKind = 'repositories',
+  spokenLanguage?: string
 ): string {
+  const prefix = kind === 'developers' ? 'trending_developers' : 'trending';
+  const spokenText = spokenLanguage ? `_${spokenLanguage}` : '';
   if (baseUrl) {
     // URLをサニタイズして安全なファイル名にする
     const sanitizedUrl = baseUrl.replace(/[^a-zA-Z0-9]/g, '_');
-    return `trending_${language}_${timeRange}_${sanitizedUrl}`;
+    return `${prefix}_${language}_${timeRange}${spokenText}_${sanitizedUrl}`;
   }
-  return `trending_${language}_${timeRange}`;
+  return `${prefix}_${language}_${timeRange}${spokenText}`;
 }
 
 /**
- * 設定ファイルを読み込む
+ * 文字列中の ${ENV_VAR} (または ${ENV_VAR:-default}) を環境変数の値で置換する
+ * オブジェクトと配列は再帰的に処理する
  */
-export function loadConfig(configPath: string): ConfigFile {
-  try {
-    if (!fs.existsSync(configPath)) {
-      throw new Error(`Config file not found: ${configPath}`);
-    }
+export function interpolateEnv(
+  value: unknown,
+  location: string = '',
+  env: Record<string, string | undefined> = process.env
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(
+      /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g,
+      (_placeholder, name: string, fallback?: string) => {
+        const resolved = env[name] ?? fallback;
+        if (resolved === undefined) {
+          throw new Error(
+            `${location || '(root)'}: environment variable ${name} is not set`
+          );
+        }
+        return resolved;
+      }
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      interpolateEnv(item, `${location}[${index}]`, env)
+    );
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        interpolateEnv(child, location ? `${location}.${key}` : key, env),
+      ])
+    );
+  }
+  return value;
+}
 
-    const content = fs.readFileSync(configPath, 'utf8');
-    const config = JSON.parse(content) as ConfigFile;
-
-    // 必須フィールドの検証
-    if (!config.global) {
-      config.global = {
-        cacheDir: './.cache',
-        cacheExpiry: 3600000,
-        useCache: true,
-        maxReadmeLength: 20000,
-        logLevel: 'INFO',
-        enableFileLogging: false,
-        parallel: true,
-        maxParallelRequests: 5,
-      };
-    }
+/**
+ * 設定ファイル (JSON または YAML) を読み込み、環境変数を展開してスキーマで検証する
+ * include されたファイルを先に、指定されたファイルを最後にした一覧を返す
+ */
+function readConfigFiles(
+  configPath: string,
+  seen: Set<string> = new Set()
+): Partial<ConfigFile>[] {
+  const resolvedPath = path.resolve(configPath);
+  if (seen.has(resolvedPath)) {
+    throw new Error(`Config file ${configPath} is included recursively`);
+  }
+  seen.add(resolvedPath);
+
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Config file not found: ${configPath}`);
+  }
+
+  const content = fs.readFileSync(configPath, 'utf8');
+  const parsed = /\.ya?ml$/i.test(configPath)
+    ? YAML.parse(content)
+    : JSON.parse(content);
+  const config = interpolateEnv(parsed ?? {}) as Partial<ConfigFile>;
+
+  const errors = validateSchema(config, buildConfigSchema());
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config file ${configPath}:\n${errors
+        .map((error) => `  - ${error.path}: ${error.message}`)
+        .join('\n')}`
+    );
+  }
+
+  const included = (config.include || []).flatMap((includePath) =>
+    readConfigFiles(path.resolve(path.dirname(configPath), includePath), seen)
+  );
+  return [...included, config];
+}
+
+/**
+ * スキーマでは表せない、ソース間の関係などを検証する
+ */
+function validateConfigSemantics(config: ConfigFile) {
+  const errors: string[] = [];
+
+  if (config.sources.length === 0) {
+    errors.push('sources: expected at least one source');
+  }
 
-    if (!Array.isArray(config.sources) || config.sources.length === 0) {
-      throw new Error(
-        'Config file must contain at least one source in the "sources" array'
+  const validateSummary = (summary: SummaryConfig | undefined, at: string) => {
+    if (summary?.promptsPath && !fs.existsSync(summary.promptsPath)) {
+      errors.push(
+        `${at}.summary.promptsPath: prompts file not found: ${summary.promptsPath}`
       );
     }
+  };
+  validateSummary(config.global.summary, 'global');
+
+  const names = new Set<string>();
+  config.sources.forEach((source, index) => {
+    const at = `sources[${index}]`;
+    const report = (message: string) =>
+      errors.push(`${message} (source "${source.name}")`);
+
+    if (names.has(source.name)) {
+      report(`${at}.name: duplicate source name`);
+    }
+    names.add(source.name);
+    validateSummary(source.summary, at);
 
-    // 各ソースの必須フィールドを検証
-    config.sources.forEach((source, index) => {
-      if (!source.name) {
-        throw new Error(
-          `Source at index ${index} is missing required field 'name'`
+    if (source.kind === 'composite') {
+      if (!source.sources?.length) {
+        report(
+          `${at}.sources: composite sources must list at least one source name`
         );
       }
-      if (source.language === undefined || source.language === null) {
-        throw new Error(
-          `Source '${source.name}' is missing required field 'language'`
+      source.sources?.forEach((name) => {
+        const referenced = config.sources.find(
+          (candidate) => candidate.name === name
         );
-      }
-      if (!source.timeRange) {
-        throw new Error(
-          `Source '${source.name}' is missing required field 'timeRange'`
+        if (!referenced) {
+          report(`${at}.sources: unknown source "${name}"`);
+        } else if (
+          referenced.kind === 'developers' ||
+          referenced.kind === 'composite'
+        ) {
+          report(
+            `${at}.sources: can only reference repository sources, but "${name}" is of kind "${referenced.kind}"`
+          );
+        }
+      });
+    } else {
+      if (source.language === undefined) {
+        report(
+          `${at}: missing required property "language"; use "" for all languages`
         );
       }
-      if (!source.outputPath) {
-        throw new Error(
-          `Source '${source.name}' is missing required field 'outputPath'`
+      if (source.timeRange === undefined) {
+        report(`${at}: missing required property "timeRange"`);
+      }
+    }
+
+    if (!source.outputPath && !source.outputs?.length) {
+      report(`${at}: missing required property "outputPath" or "outputs"`);
+    }
+
+    source.rules?.forEach((rule, ruleIndex) => {
+      if (rule.matches === undefined) return;
+      try {
+        new RegExp(rule.matches, 'i');
+      } catch (error: any) {
+        report(
+          `${at}.rules[${ruleIndex}].matches: invalid pattern in rule "${describeRule(rule)}": ${error.message}`
         );
       }
     });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config:\n${errors.map((error) => `  - ${error}`).join('\n')}`
+    );
+  }
+}
+
+/**
+ * 設定ファイルを読み込む
+ * include されたファイルの global は後のファイルの値で上書きし、sources は順に連結する
+ */
+export function loadConfig(configPath: string): ConfigFile {
+  try {
+    const files = readConfigFiles(configPath);
+    const config: ConfigFile = {
+      global: Object.assign({}, ...files.map((file) => file.global || {})),
+      sources: files.flatMap((file) => file.sources || []),
+      server: Object.assign({}, ...files.map((file) => file.server || {})),
+      opml: Object.assign({}, ...files.map((file) => file.opml || {})),
+    };
+
+    validateConfigSemantics(config);
 
     logger.info(
       `Loaded config file: ${configPath} with ${config.sources.length} sources`
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HistoryRecord, RepoHistory, TrendingRepo } from '../types';
+import {
+  applyHistory,
+  isNewEntry,
+  loadHistory,
+  summarizeRepoHistory,
+} from './history';
+import { logger } from './logger';
+
+const URL = 'https://github.com/octo/repo';
+
+/**
+ * 指定した日時の履歴の記録を作成する
+ */
+function record(
+  recordedAt: string,
+  rank: number,
+  overrides: Partial<HistoryRecord> = {}
+): HistoryRecord {
+  return {
+    source: 'Python Daily',
+    date: recordedAt.split('T')[0],
+    recordedAt,
+    rank,
+    name: 'octo/repo',
+    url: URL,
+    stars: '1,000',
+    todayStars: '100 stars today',
+    ...overrides,
+  };
+}
+
+describe('summarizeRepoHistory', () => {
+  test('returns null for a repository that was never recorded', () => {
+    const records = [
+      record('2026-01-01T09:00:00.000Z', 1, { source: 'Go Daily' }),
+      record('2026-01-01T09:00:00.000Z', 2, {
+        url: 'https://github.com/octo/other',
+      }),
+    ];
+
+    expect(summarizeRepoHistory(records, 'Python Daily', URL)).toBeNull();
+  });
+
+  test('counts each day once and keeps the first record of the day', () => {
+    const records = [
+      record('2026-01-01T09:00:00.000Z', 5),
+      record('2026-01-01T21:00:00.000Z', 3),
+      record('2026-01-02T09:00:00.000Z', 4),
+      record('2026-01-03T09:00:00.000Z', 1, { source: 'Go Daily' }),
+    ];
+
+    expect(summarizeRepoHistory(records, 'Python Daily', URL)).toEqual({
+      firstSeen: '2026-01-01',
+      lastSeen: '2026-01-02',
+      daysOnChart: 2,
+      peakRank: 3,
+      publishedAt: '2026-01-01T09:00:00.000Z',
+    });
+  });
+
+  test('continues the listing across gaps within newWithinDays', () => {
+    const records = [
+      record('2026-01-01T09:00:00.000Z', 2),
+      record('2026-01-08T09:00:00.000Z', 1),
+    ];
+
+    expect(
+      summarizeRepoHistory(records, 'Python Daily', URL, 7)?.publishedAt
+    ).toBe('2026-01-01T09:00:00.000Z');
+  });
+
+  test('starts a new listing after a longer gap', () => {
+    const records = [
+      record('2026-01-01T09:00:00.000Z', 2),
+      record('2026-01-09T09:00:00.000Z', 6),
+      record('2026-01-10T09:00:00.000Z', 4),
+    ];
+
+    expect(summarizeRepoHistory(records, 'Python Daily', URL, 7)).toEqual({
+      firstSeen: '2026-01-01',
+      lastSeen: '2026-01-10',
+      daysOnChart: 3,
+      peakRank: 2,
+      publishedAt: '2026-01-09T09:00:00.000Z',
+    });
+  });
+});
+
+describe('isNewEntry', () => {
+  const history = (publishedAt: string): RepoHistory => ({
+    firstSeen: publishedAt.split('T')[0],
+    lastSeen: publishedAt.split('T')[0],
+    daysOnChart: 1,
+    peakRank: 1,
+    publishedAt,
+  });
+
+  test.each([
+    ['2026-01-02T00:00:00.000Z', '2026-01-02T23:59:59.000Z', true],
+    ['2026-01-02T09:00:00.000Z', '2026-01-02T10:00:00.000Z', true],
+    ['2026-01-01T23:59:59.000Z', '2026-01-02T00:00:00.000Z', false],
+    ['2025-12-26T09:00:00.000Z', '2026-01-02T09:00:00.000Z', false],
+  ])('treats publishedAt %p at %p as new: %p', (publishedAt, now, expected) => {
+    expect(isNewEntry(history(publishedAt), new Date(now))).toBe(expected);
+  });
+});
+
+describe('applyHistory', () => {
+  let historyPath: string;
+
+  beforeEach(() => {
+    logger.configure({ logLevel: 'ERROR' });
+    historyPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'history-')),
+      'history.jsonl'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(historyPath), { recursive: true, force: true });
+  });
+
+  function repos(...names: string[]): TrendingRepo[] {
+    return names.map(
+      (name, index) =>
+        ({
+          name,
+          url: `https://github.com/${name}`,
+          rank: index + 1,
+          stars: '1,000',
+          todayStars: '100 stars today',
+        }) as TrendingRepo
+    );
+  }
+
+  function apply(source: string, list: TrendingRepo[], now: string) {
+    applyHistory(historyPath, source, list, 7, new Date(now));
+    return list;
+  }
+
+  test('does not record a repository twice on the same day', () => {
+    apply('Python Daily', repos('octo/a', 'octo/b'), '2026-01-01T09:00:00Z');
+    const rerun = apply(
+      'Python Daily',
+      repos('octo/b', 'octo/a', 'octo/c'),
+      '2026-01-01T18:00:00Z'
+    );
+
+    expect(
+      loadHistory(historyPath).map((row) => [row.name, row.date, row.rank])
+    ).toEqual([
+      ['octo/a', '2026-01-01', 1],
+      ['octo/b', '2026-01-01', 2],
+      ['octo/c', '2026-01-01', 3],
+    ]);
+    expect(rerun.map((repo) => repo.history)).toEqual([
+      {
+        firstSeen: '2026-01-01',
+        lastSeen: '2026-01-01',
+        daysOnChart: 1,
+        peakRank: 2,
+        publishedAt: '2026-01-01T09:00:00.000Z',
+      },
+      {
+        firstSeen: '2026-01-01',
+        lastSeen: '2026-01-01',
+        daysOnChart: 1,
+        peakRank: 1,
+        publishedAt: '2026-01-01T09:00:00.000Z',
+      },
+      {
+        firstSeen: '2026-01-01',
+        lastSeen: '2026-01-01',
+        daysOnChart: 1,
+        peakRank: 3,
+        publishedAt: '2026-01-01T18:00:00.000Z',
+      },
+    ]);
+  });
+
+  test('records the other sources and the next day', () => {
+    apply('Python Daily', repos('octo/a'), '2026-01-01T09:00:00Z');
+    apply('All Languages Daily', repos('octo/a'), '2026-01-01T09:00:00Z');
+    const nextDay = apply(
+      'Python Daily',
+      repos('octo/a'),
+      '2026-01-02T09:00:00Z'
+    );
+
+    expect(
+      loadHistory(historyPath).map((row) => [row.source, row.date])
+    ).toEqual([
+      ['Python Daily', '2026-01-01'],
+      ['All Languages Daily', '2026-01-01'],
+      ['Python Daily', '2026-01-02'],
+    ]);
+    expect(nextDay[0].history?.daysOnChart).toBe(2);
+    expect(
+      isNewEntry(nextDay[0].history!, new Date('2026-01-02T09:00:00Z'))
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+import fs from 'fs';
+import path from 'path';
+import { TrendingRepo, HistoryRecord, RepoHistory } from '../types';
+import { logger } from './logger';
+
+/**
+ * 日付を YYYY-MM-DD 形式 (UTC) に変換する
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * 履歴ファイル (JSONL) を読み込む
+ */
+export function loadHistory(historyPath: string): HistoryRecord[] {
+  try {
+    if (!fs.existsSync(historyPath)) {
+      return [];
+    }
+
+    const content = fs.readFileSync(historyPath, 'utf8');
+    const records: HistoryRecord[] = [];
+
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch (error: any) {
+        logger.warn(
+          `Skipping invalid history line ${index + 1} in ${historyPath}: ${error.message}`
+        );
+      }
+    });
+
+    logger.info(`Loaded ${records.length} history records from ${historyPath}`);
+    return records;
+  } catch (error: any) {
+    logger.warn(`Failed to load history: ${error.message}`);
+    return [];
+  }
+}
+
+/**
+ * 今回のスナップショットを履歴ファイルに追記する
+ * 同じソースで同じ日に記録済みのリポジトリは追記しない
+ * (キャッシュから同じ日に再実行した場合に重複した行が増えないようにする)
+ * @param history 記録済みの履歴
+ * @returns 追記した記録
+ */
+export function recordSnapshot(
+  historyPath: string,
+  source: string,
+  repos: TrendingRepo[],
+  now: Date = new Date(),
+  history: HistoryRecord[] = []
+): HistoryRecord[] {
+  const date = toDateKey(now);
+  const recordedAt = now.toISOString();
+  const recordedUrls = new Set(
+    history
+      .filter((record) => record.source === source && record.date === date)
+      .map((record) => record.url)
+  );
+  const records: HistoryRecord[] = repos
+    .map((repo, index) => ({
+      source,
+      date,
+      recordedAt,
+      rank: repo.rank || index + 1,
+      name: repo.name,
+      url: repo.url,
+      stars: repo.stars,
+      todayStars: repo.todayStars,
+    }))
+    .filter((record) => !recordedUrls.has(record.url));
+
+  if (records.length === 0) {
+    logger.info(`History for ${source} (${date}) is already recorded`);
+    return records;
+  }
+
+  try {
+    const historyDir = path.dirname(historyPath);
+    if (!fs.existsSync(historyDir)) {
+      fs.mkdirSync(historyDir, { recursive: true });
+      logger.info(`Created history directory: ${historyDir}`);
+    }
+
+    fs.appendFileSync(
+      historyPath,
+      records.map((record) => JSON.stringify(record) + '\n').join('')
+    );
+    logger.info(
+      `Recorded ${records.length} repositories for ${source} (${date}) in ${historyPath}`
+    );
+  } catch (error: any) {
+    logger.warn(`Failed to record history: ${error.message}`);
+  }
+
+  return records;
+}
+
+/**
+ * 2つの日付キー (YYYY-MM-DD) の差を日数で返す
+ */
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
+
+/**
+ * 指定ソースにおけるリポジトリの履歴を集計する
+ * @param newWithinDays この日数以内の再登場は同じ掲載期間として扱う
+ */
+export function summarizeRepoHistory(
+  records: HistoryRecord[],
+  source: string,
+  url: string,
+  newWithinDays: number = 7
+): RepoHistory | null {
+  const matched = records.filter(
+    (record) => record.source === source && record.url === url
+  );
+  if (matched.length === 0) {
+    return null;
+  }
+
+  // 日付ごとに最初の記録日時をまとめる
+  const firstRecordedAt = new Map<string, string>();
+  matched.forEach((record) => {
+    const current = firstRecordedAt.get(record.date);
+    if (!current || record.recordedAt < current) {
+      firstRecordedAt.set(record.date, record.recordedAt);
+    }
+  });
+  const sortedDates = Array.from(firstRecordedAt.keys()).sort();
+
+  // 最新の日付から遡り、間隔が newWithinDays 以内の連続した掲載期間の開始日を求める
+  let streakStart = sortedDates.length - 1;
+  while (
+    streakStart > 0 &&
+    daysBetween(sortedDates[streakStart - 1], sortedDates[streakStart]) <=
+      newWithinDays
+  ) {
+    streakStart--;
+  }
+
+  return {
+    firstSeen: sortedDates[0],
+    lastSeen: sortedDates[sortedDates.length - 1],
+    daysOnChart: sortedDates.length,
+    peakRank: Math.min(...matched.map((record) => record.rank)),
+    publishedAt: firstRecordedAt.get(sortedDates[streakStart]) as string,
+  };
+}
+
+/**
+ * 今回の取得で新たに掲載されたリポジトリかどうかを判定する
+ */
+export function isNewEntry(
+  history: RepoHistory,
+  now: Date = new Date()
+): boolean {
+  return toDateKey(new Date(history.publishedAt)) === toDateKey(now);
+}
+
+/**
+ * スナップショットを記録し、各リポジトリに履歴情報を付与する
+ */
+export function applyHistory(
+  historyPath: string,
+  source: string,
+  repos: TrendingRepo[],
+  newWithinDays: number = 7,
+  now: Date = new Date()
+): void {
+  const history = loadHistory(historyPath);
+  const records = history.concat(
+    recordSnapshot(historyPath, source, repos, now, history)
+  );
+
+  repos.forEach((repo) => {
+    const history = summarizeRepoHistory(
+      records,
+      source,
+      repo.url,
+      newWithinDays
+    );
+    if (history) {
+      repo.history = history;
+    }
+  });
+}
@@ -0,0 +1,215 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { configureHttp, DEFAULT_HTTP_OPTIONS, httpFetch } from './http';
+import { logger } from './logger';
+import * as scheduler from './scheduler';
+
+let server: ReturnType<typeof Bun.serve>;
+// パスごとのリクエスト
+let requests: Map<string, Request[]>;
+
+beforeAll(() => {
+  logger.configure({ logLevel: 'ERROR' });
+  configureHttp({ retryDelay: 0 });
+  scheduler.configureScheduler({ requestsPerSecond: 1000 });
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname, searchParams } = new URL(request.url);
+      const received = [...(requests.get(pathname) || []), request];
+      requests.set(pathname, received);
+
+      // /status/{code}?failures=n は n 回目まで code を返し、それ以降は 200 を返す
+      const status = pathname.match(/^\/status\/(\d+)$/);
+      if (status) {
+        const failures = Number(searchParams.get('failures') ?? Infinity);
+        return received.length <= failures
+          ? new Response('failed', { status: Number(status[1]) })
+          : new Response('ok');
+      }
+
+      switch (pathname) {
+        case '/data':
+          return new Response(`${request.method} ${await request.text()}`, {
+            headers: { 'Content-Type': 'text/plain', ETag: '"v1"' },
+          });
+        case '/not-modified':
+          return new Response(null, { status: 304 });
+        default:
+          return new Response('Not Found', { status: 404 });
+      }
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+  configureHttp(DEFAULT_HTTP_OPTIONS);
+  scheduler.configureScheduler({});
+});
+
+beforeEach(() => {
+  requests = new Map();
+});
+
+const url = (pathname: string) => `http://127.0.0.1:${server.port}${pathname}`;
+
+describe('httpFetch retries', () => {
+  test.each([408, 425, 500, 502, 503, 504])(
+    'retries the status %p',
+    async (status) => {
+      const response = await httpFetch(url(`/status/${status}?failures=2`));
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('ok');
+      expect(requests.get(`/status/${status}`)).toHaveLength(3);
+    }
+  );
+
+  test.each([400, 401, 403, 404, 410, 501])(
+    'returns the status %p without retrying',
+    async (status) => {
+      const response = await httpFetch(url(`/status/${status}`));
+
+      expect(response.status).toBe(status);
+      expect(requests.get(`/status/${status}`)).toHaveLength(1);
+    }
+  );
+
+  test('returns the last response after the retries', async () => {
+    const response = await httpFetch(url('/status/503'));
+
+    expect(response.status).toBe(503);
+    expect(requests.get('/status/503')).toHaveLength(
+      DEFAULT_HTTP_OPTIONS.maxRetries + 1
+    );
+  });
+
+  test('cancels the body of a retried response', async () => {
+    let cancelled = 0;
+    const responses = [
+      new Response(
+        new ReadableStream({
+          pull() {},
+          cancel() {
+            cancelled++;
+          },
+        }),
+        { status: 503 }
+      ),
+      new Response('ok'),
+    ];
+    const fetch = spyOn(scheduler, 'scheduledFetch').mockImplementation(
+      async () => responses.shift()!
+    );
+
+    try {
+      const response = await httpFetch(url('/data'));
+
+      expect(await response.text()).toBe('ok');
+      expect(cancelled).toBe(1);
+    } finally {
+      fetch.mockRestore();
+    }
+  });
+});
+
+describe('httpFetch fixtures', () => {
+  let fixtureDir: string;
+
+  beforeEach(() => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'http-fixtures-'));
+  });
+
+  afterEach(() => {
+    configureHttp({ fixtureMode: 'off' });
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  test('replays the recorded responses', async () => {
+    configureHttp({ fixtureMode: 'record', fixtureDir });
+    const recorded = await httpFetch(url('/data'), {
+      headers: { 'If-None-Match': '"v1"' },
+    });
+
+    expect(await recorded.text()).toBe('GET ');
+    // 条件付きリクエストにせず本文を保存する
+    expect(requests.get('/data')![0].headers.get('If-None-Match')).toBeNull();
+    const files = fs.readdirSync(fixtureDir);
+    expect(files).toEqual([
+      // ホスト名とポートとリクエストのハッシュ
+      expect.stringMatching(
+        new RegExp(`^127\\.0\\.0\\.1_${server.port}_[0-9a-f]{16}\\.json$`)
+      ),
+    ]);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(fixtureDir, files[0]), 'utf8'))
+    ).toMatchObject({
+      method: 'GET',
+      url: url('/data'),
+      status: 200,
+      body: 'GET ',
+    });
+
+    configureHttp({ fixtureMode: 'replay' });
+    const replayed = await httpFetch(url('/data'));
+
+    expect(replayed.status).toBe(200);
+    expect(replayed.headers.get('etag')).toBe('"v1"');
+    expect(await replayed.text()).toBe('GET ');
+    expect(requests.get('/data')).toHaveLength(1);
+  });
+
+  test('records a response for each request body', async () => {
+    configureHttp({ fixtureMode: 'record', fixtureDir });
+    for (const body of ['first', 'second']) {
+      await httpFetch(url('/data'), { method: 'POST', body });
+    }
+
+    configureHttp({ fixtureMode: 'replay' });
+    const second = await httpFetch(url('/data'), {
+      method: 'post',
+      body: 'second',
+    });
+
+    expect(await second.text()).toBe('POST second');
+    expect(fs.readdirSync(fixtureDir)).toHaveLength(2);
+  });
+
+  test('replays a response without a body', async () => {
+    configureHttp({ fixtureMode: 'record', fixtureDir });
+    await httpFetch(url('/not-modified'));
+
+    configureHttp({ fixtureMode: 'replay' });
+    const replayed = await httpFetch(url('/not-modified'));
+
+    expect(replayed.status).toBe(304);
+    expect(replayed.body).toBeNull();
+  });
+
+  test('rejects a request that was not recorded', async () => {
+    configureHttp({ fixtureMode: 'replay', fixtureDir });
+
+    await expect(httpFetch(url('/data'))).rejects.toThrow(
+      `No recorded response for GET ${url('/data')}`
+    );
+    expect(requests.size).toBe(0);
+  });
+
+  test('rejects an unknown fixture mode', () => {
+    expect(() => configureHttp({ fixtureMode: 'live' as never })).toThrow(
+      'Unsupported fixture mode: live (expected one of off, record, replay)'
+    );
+  });
+});
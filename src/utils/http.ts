@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { FixtureMode } from '../types';
+import { logger } from './logger';
+import { scheduledFetch, ScheduledRequestInit } from './scheduler';
+
+export const FIXTURE_MODES: FixtureMode[] = ['off', 'record', 'replay'];
+
+export const DEFAULT_USER_AGENT = 'GitHub-Trend-RSS-Generator/1.0';
+
+/**
+ * HTTP クライアントの設定
+ */
+export interface HttpClientOptions {
+  timeout: number; // 1回のリクエストのタイムアウト (ミリ秒)
+  maxRetries: number; // 再試行の最大回数
+  retryDelay: number; // バックオフの基準となる待ち時間 (ミリ秒)
+  userAgent: string;
+  proxy?: string; // 省略時は環境変数 HTTPS_PROXY / HTTP_PROXY に従う
+  fixtureMode: FixtureMode; // record: レスポンスを保存する, replay: 保存したレスポンスを返す
+  fixtureDir: string;
+}
+
+export const DEFAULT_HTTP_OPTIONS: HttpClientOptions = {
+  timeout: 30000,
+  maxRetries: 3,
+  retryDelay: 1000,
+  userAgent: DEFAULT_USER_AGENT,
+  fixtureMode: 'off',
+  fixtureDir: './fixtures',
+};
+
+// 再試行するステータス (429 はスケジューラーが Retry-After に従って再送する)
+const RETRYABLE_STATUSES = [408, 425, 500, 502, 503, 504];
+
+// レスポンスの本文を持たないステータス
+const NULL_BODY_STATUSES = [204, 304];
+
+/**
+ * 保存したレスポンス
+ */
+interface Fixture {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+let httpOptions: HttpClientOptions = { ...DEFAULT_HTTP_OPTIONS };
+
+/**
+ * HTTP クライアントの設定を変更する (指定しない項目は現在の値を維持する)
+ */
+export function configureHttp(options: Partial<HttpClientOptions>): void {
+  if (options.fixtureMode && !FIXTURE_MODES.includes(options.fixtureMode)) {
+    throw new Error(
+      `Unsupported fixture mode: ${options.fixtureMode} (expected one of ${FIXTURE_MODES.join(', ')})`
+    );
+  }
+  httpOptions = {
+    ...httpOptions,
+    ...Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    ),
+  };
+}
+
+/**
+ * リクエストに対応するフィクスチャーのパスを返す
+ */
+function fixturePath(method: string, url: string, body?: string): string {
+  const { host } = new URL(url);
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${method} ${url}\n${body || ''}`)
+    .digest('hex')
+    .substring(0, 16);
+  return path.join(
+    httpOptions.fixtureDir,
+    `${host.replace(/[^a-zA-Z0-9.-]/g, '_')}_${hash}.json`
+  );
+}
+
+/**
+ * 保存したレスポンスを返す
+ */
+function replayFixture(method: string, url: string, body?: string): Response {
+  const filePath = fixturePath(method, url, body);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No recorded response for ${method} ${url} (${filePath})`);
+  }
+
+  const fixture: Fixture = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  logger.debug(`Replaying ${method} ${url} from ${filePath}`);
+  return new Response(
+    NULL_BODY_STATUSES.includes(fixture.status) ? null : fixture.body,
+    {
+      status: fixture.status,
+      statusText: fixture.statusText,
+      headers: fixture.headers,
+    }
+  );
+}
+
+/**
+ * レスポンスを保存し、本文を読み直せるレスポンスを返す
+ */
+async function recordFixture(
+  method: string,
+  url: string,
+  requestBody: string | undefined,
+  response: Response
+): Promise<Response> {
+  const fixture: Fixture = {
+    method,
+    url,
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(response.headers.entries()),
+    body: await response.text(),
+  };
+
+  const filePath = fixturePath(method, url, requestBody);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2));
+  logger.debug(`Recorded ${method} ${url} to ${filePath}`);
+
+  return new Response(
+    NULL_BODY_STATUSES.includes(fixture.status) ? null : fixture.body,
+    {
+      status: fixture.status,
+      statusText: fixture.statusText,
+      headers: fixture.headers,
+    }
+  );
+}
+
+/**
+ * 再試行までの待ち時間 (ミリ秒) を返す
+ * 指数的に増える上限の範囲でランダムに待つ (full jitter)
+ */
+function backoffDelay(attempt: number): number {
+  return Math.round(Math.random() * httpOptions.retryDelay * 2 ** attempt);
+}
+
+/**
+ * タイムアウトと再試行付きでリクエストを送る
+ * 再試行するのはネットワークエラー、タイムアウトと一時的なエラーのステータスのみで、
+ * 404 などはそのまま返す。すべてのリクエストは共有のスケジューラーを通る
+ */
+export async function httpFetch(
+  url: string,
+  init: ScheduledRequestInit = {}
+): Promise<Response> {
+  const method = (init.method || 'GET').toUpperCase();
+  // POST などはリクエストの本文ごとにレスポンスを保存する
+  const requestBody = typeof init.body === 'string' ? init.body : undefined;
+  const timeout = init.timeout ?? httpOptions.timeout;
+
+  if (httpOptions.fixtureMode === 'replay') {
+    return replayFixture(method, url, requestBody);
+  }
+
+  const headers = new Headers(init.headers);
+  if (!headers.has('User-Agent')) {
+    headers.set('User-Agent', httpOptions.userAgent);
+  }
+  // 記録する場合は条件付きリクエストにせず、常に本文を含むレスポンスを保存する
+  if (httpOptions.fixtureMode === 'record') {
+    headers.delete('If-None-Match');
+    headers.delete('If-Modified-Since');
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const retriesLeft = httpOptions.maxRetries - attempt;
+    let response: Response;
+
+    try {
+      response = await scheduledFetch(url, {
+        ...init,
+        headers,
+        proxy: httpOptions.proxy,
+        timeout: init.signal ? undefined : timeout,
+      });
+    } catch (error: any) {
+      const message =
+        error.name === 'TimeoutError'
+          ? `Request timed out after ${timeout}ms`
+          : error.message;
+      if (retriesLeft <= 0) {
+        throw new Error(`${method} ${url} failed: ${message}`);
+      }
+
+      const delay = backoffDelay(attempt);
+      logger.warn(
+        `${method} ${url} failed (${message}). Retrying in ${delay}ms... (${retriesLeft} retries left)`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      continue;
+    }
+
+    if (RETRYABLE_STATUSES.includes(response.status) && retriesLeft > 0) {
+      const delay = backoffDelay(attempt);
+      logger.warn(
+        `${method} ${url} returned ${response.status}. Retrying in ${delay}ms... (${retriesLeft} retries left)`
+      );
+      // 読まない本文を破棄して接続を解放する
+      await response.body?.cancel();
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      continue;
+    }
+
+    return httpOptions.fixtureMode === 'record'
+      ? recordFixture(method, url, requestBody, response)
+      : response;
+  }
+}
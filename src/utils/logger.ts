@@ -53,20 +53,43 @@ class Logger {
   }
 
   private log(level: LogLevel, levelName: string, message: string) {
-    // Always log to console for debugging
+    if (level < this.logLevel) {
+      return;
+    }
+
     const formattedMessage = this.formatMessage(levelName, message);
-    
     console.log(formattedMessage);
-    
-    // Original logic for file logging
-    if (level >= this.logLevel) {
-      // ファイルへのログ記録
-      if (this.logFile) {
-        try {
-          fs.appendFileSync(this.logFile, formattedMessage + '\n');
-        } catch (error) {
-          console.error(`Failed to write to log file: ${error}`);
-        }
+
+    // ファイルへのログ記録
+    if (this.logFile) {
+      try {
+        fs.appendFileSync(this.logFile, formattedMessage + '\n');
+      } catch (error) {
+        console.error(`Failed to write to log file: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * ログレベルとファイルへの記録を設定する (CLI や設定ファイルの値を反映する)
+   */
+  configure(options: { logLevel?: string; enableFileLogging?: boolean }) {
+    if (options.logLevel) {
+      const level = LogLevel[
+        options.logLevel.toUpperCase() as keyof typeof LogLevel
+      ] as LogLevel | undefined;
+      if (level === undefined) {
+        this.warn(`Unknown log level: ${options.logLevel}`);
+      } else {
+        this.logLevel = level;
+      }
+    }
+
+    if (options.enableFileLogging !== undefined) {
+      if (!options.enableFileLogging) {
+        this.logFile = null;
+      } else if (!this.logFile) {
+        this.setupLogFile();
       }
     }
   }
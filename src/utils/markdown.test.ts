@@ -0,0 +1,223 @@
+import { describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import path from 'path';
+import {
+  excerptReadme,
+  isBadgeUrl,
+  readmeSnippet,
+  renderReadmeHtml,
+  resolveReadmeUrl,
+  sanitizeReadmeHtml,
+} from './markdown';
+
+// バッジ、コメント、相対リンク、危険なリンクを含む README
+const README = fs.readFileSync(
+  path.join(import.meta.dir, '../__fixtures__/readme/README.md'),
+  'utf8'
+);
+
+const OPTIONS = {
+  repoName: 'octo/fastkit',
+  branch: 'main',
+  readmePath: 'docs/README.md',
+  stripBadges: true,
+};
+
+describe('resolveReadmeUrl', () => {
+  test.each([
+    [
+      'guide.md',
+      'link',
+      'https://github.com/octo/fastkit/blob/main/docs/guide.md',
+    ],
+    [
+      '../CHANGELOG.md#unreleased',
+      'link',
+      'https://github.com/octo/fastkit/blob/main/CHANGELOG.md#unreleased',
+    ],
+    [
+      '/LICENSE?plain=1',
+      'link',
+      'https://github.com/octo/fastkit/blob/main/LICENSE?plain=1',
+    ],
+    [
+      '#usage',
+      'link',
+      'https://github.com/octo/fastkit/blob/main/docs/README.md#usage',
+    ],
+    [
+      'images/logo.png',
+      'image',
+      'https://raw.githubusercontent.com/octo/fastkit/main/docs/images/logo.png',
+    ],
+    ['//cdn.example.com/logo.png', 'image', 'https://cdn.example.com/logo.png'],
+    ['https://example.com/page', 'link', 'https://example.com/page'],
+    ['mailto:team@example.com', 'link', 'mailto:team@example.com'],
+    ['mailto:team@example.com', 'image', null],
+    ['javascript:alert(1)', 'link', null],
+    [' JavaScript:alert(1)', 'link', null],
+    ['data:text/html;base64,PHNjcmlwdD4=', 'link', null],
+    ['data:image/png;base64,iVBORw0KGgo=', 'image', null],
+    ['vbscript:msgbox(1)', 'link', null],
+    ['', 'link', null],
+  ] as [string, 'link' | 'image', string | null][])(
+    'resolves %p as a %s to %p',
+    (url, kind, expected) => {
+      expect(resolveReadmeUrl(url, kind, OPTIONS)).toBe(expected);
+    }
+  );
+
+  test('uses HEAD and README.md by default', () => {
+    expect(
+      resolveReadmeUrl('docs/a.md', 'link', { repoName: 'octo/repo' })
+    ).toBe('https://github.com/octo/repo/blob/HEAD/docs/a.md');
+  });
+});
+
+describe('renderReadmeHtml', () => {
+  const html = renderReadmeHtml(README, OPTIONS);
+
+  test('removes javascript: and data: hrefs', () => {
+    expect(html).not.toContain('javascript:');
+    expect(html).not.toContain('data:');
+    expect(html).toContain('<a>Click me</a> or <a>this</a>');
+  });
+
+  test('removes scripts, frames and event handlers', () => {
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('alert(');
+    expect(html).not.toContain('<iframe');
+    expect(html).not.toContain('onclick');
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('style=');
+    expect(html).toContain('Run <code>fastkit --help</code>.');
+  });
+
+  test('rewrites relative links to blob URLs and images to raw URLs', () => {
+    expect(html).toContain(
+      '<a href="https://github.com/octo/fastkit/blob/main/CHANGELOG.md#unreleased">changelog</a>'
+    );
+    expect(html).toContain(
+      '<a href="https://github.com/octo/fastkit/blob/main/docs/api.md?plain=1#top">API reference</a>'
+    );
+    expect(html).toContain(
+      '<a href="https://github.com/octo/fastkit/blob/main/docs/README.md#usage">usage</a>'
+    );
+    expect(html).toContain(
+      '<img src="https://raw.githubusercontent.com/octo/fastkit/main/docs/docs/images/screenshot.png" alt="Screenshot">'
+    );
+    expect(html).toContain(
+      '<img src="https://cdn.example.com/logo.png" alt="Logo">'
+    );
+  });
+
+  test('strips badges and the links and paragraphs left empty', () => {
+    expect(html).not.toContain('shields.io');
+    expect(html).not.toContain('badge.svg');
+    expect(html).not.toContain('https://pypi.org/project/fastkit/');
+    expect(html.startsWith('<h1>fastkit</h1>')).toBe(true);
+  });
+
+  test('keeps badges when stripBadges is off', () => {
+    const kept = renderReadmeHtml(README, { ...OPTIONS, stripBadges: false });
+    expect(kept).toContain('src="https://img.shields.io/pypi/v/fastkit.svg"');
+  });
+
+  test('removes HTML comments', () => {
+    expect(html).not.toContain('<!--');
+    expect(html).not.toContain('BADGES');
+  });
+
+  test('shows non-Markdown READMEs as preformatted text', () => {
+    expect(
+      renderReadmeHtml('Title\n=====\n\n<b>not html</b>', {
+        repoName: 'octo/repo',
+        readmePath: 'README.rst',
+      })
+    ).toBe('<pre>Title\n=====\n\n&lt;b&gt;not html&lt;/b&gt;</pre>');
+  });
+});
+
+describe('sanitizeReadmeHtml', () => {
+  test('keeps the content of unknown tags', () => {
+    expect(
+      sanitizeReadmeHtml('<section><custom-tag>Text</custom-tag></section>', {
+        repoName: 'octo/repo',
+      })
+    ).toBe('Text');
+  });
+});
+
+describe('isBadgeUrl', () => {
+  test.each([
+    ['https://img.shields.io/badge/a-b-green', true],
+    ['https://github.com/octo/repo/actions/workflows/ci.yml/badge.svg', true],
+    ['https://badge.fury.io/py/fastkit.svg', true],
+    ['https://raw.githubusercontent.com/octo/repo/main/docs/logo.png', false],
+  ] as [string, boolean][])('detects %p as %p', (url, expected) => {
+    expect(isBadgeUrl(url)).toBe(expected);
+  });
+});
+
+describe('excerptReadme', () => {
+  test('keeps the introduction without badges, comments and the table of contents', () => {
+    const excerpt = excerptReadme(README, 1000);
+
+    expect(excerpt.startsWith('# fastkit\n\nfastkit is a toolkit')).toBe(true);
+    expect(excerpt).not.toContain('<!--');
+    expect(excerpt).not.toContain('shields.io');
+    expect(excerpt).not.toContain('Table of Contents');
+    expect(excerpt).toContain('## Features');
+    // 定型的なセクションは取り除く
+    expect(excerpt).not.toContain('pip install');
+    expect(excerpt).not.toContain('## License');
+    expect(excerpt).toEndWith(
+      '... [README excerpt. Visit the repository for the complete README] ...'
+    );
+  });
+
+  test('does not cut blocks in the middle', () => {
+    const excerpt = excerptReadme(README, 200);
+
+    expect(excerpt).toBe(
+      '# fastkit\n\nfastkit is a toolkit for building fast command-line tools. It parses arguments, renders progress bars and ships a plugin system.\n\n## Features\n\n... [README excerpt. Visit the repository for the complete README] ...'
+    );
+  });
+
+  test('cuts a long first paragraph at a sentence without breaking tags', () => {
+    const readme =
+      'First sentence is here. Then <a href="https://example.com/a/very/long/path">a link</a> follows.';
+    const excerpt = excerptReadme(readme, 40);
+
+    expect(excerpt.startsWith('First sentence is here.\n\n')).toBe(true);
+
+    const noSentence = excerptReadme(
+      'Short words then <a href="https://example.com/long">link</a>',
+      30
+    );
+    expect(noSentence.startsWith('Short words then \n\n')).toBe(true);
+    expect(renderReadmeHtml(noSentence, { repoName: 'octo/repo' })).not.toMatch(
+      /<a[^>]*$/m
+    );
+  });
+
+  test('returns short READMEs unchanged', () => {
+    expect(excerptReadme('# Tiny\n\nA small project.', 1000)).toBe(
+      '# Tiny\n\nA small project.'
+    );
+  });
+});
+
+describe('readmeSnippet', () => {
+  test('returns the first paragraph as plain text', () => {
+    expect(readmeSnippet(README, 280)).toBe(
+      'fastkit is a toolkit for building fast command-line tools. It parses arguments, renders progress bars and ships a plugin system.'
+    );
+  });
+
+  test('truncates at a word', () => {
+    expect(readmeSnippet('Tom & Jerry are *fast* friends forever', 20)).toBe(
+      'Tom & Jerry are…'
+    );
+  });
+});
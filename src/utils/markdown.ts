@@ -0,0 +1,435 @@
+import { marked, Token, Tokens } from 'marked';
+import { parseHTML } from 'linkedom';
+import { escapeHtml } from './helpers';
+import { logger } from './logger';
+
+/**
+ * README をHTMLに変換する際のオプション
+ */
+export interface ReadmeRenderOptions {
+  repoName: string; // owner/repo 形式の名前
+  branch?: string; // 相対URLの解決に使うブランチ (省略時は HEAD)
+  readmePath?: string; // README のリポジトリ内のパス
+  stripBadges?: boolean; // バッジ画像を取り除く
+}
+
+// 許可するタグと、タグごとに許可する属性
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  p: [],
+  br: [],
+  hr: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  strong: [],
+  b: [],
+  em: [],
+  i: [],
+  del: [],
+  s: [],
+  code: [],
+  pre: [],
+  kbd: [],
+  sub: [],
+  sup: [],
+  blockquote: [],
+  ul: [],
+  ol: ['start'],
+  li: [],
+  dl: [],
+  dt: [],
+  dd: [],
+  table: [],
+  thead: [],
+  tbody: [],
+  tr: [],
+  th: ['align'],
+  td: ['align'],
+  details: [],
+  summary: [],
+};
+
+// 内容ごと取り除くタグ
+const DROPPED_TAGS = [
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'form',
+  'input',
+  'button',
+  'textarea',
+  'select',
+  'noscript',
+  'svg',
+  'math',
+];
+
+// バッジ画像とみなす URL のパターン
+const BADGE_PATTERNS = [
+  /img\.shields\.io/i,
+  /badgen\.net/i,
+  /badge\.fury\.io/i,
+  /travis-ci\.(org|com)/i,
+  /circleci\.com/i,
+  /ci\.appveyor\.com/i,
+  /codecov\.io/i,
+  /coveralls\.io/i,
+  /deepwiki\.com\/badge/i,
+  /\/workflows\/.*\/badge\.svg/i,
+  /\/badge(\.svg)?(\?|$)/i,
+  /\/badges?\//i,
+];
+
+/**
+ * URL がバッジ画像かどうかを判定する
+ */
+export function isBadgeUrl(url: string): boolean {
+  return BADGE_PATTERNS.some((pattern) => pattern.test(url));
+}
+
+/**
+ * README 内の相対URLを github.com / raw.githubusercontent.com の絶対URLに変換する
+ * @param kind リンクは github.com の blob、画像は raw.githubusercontent.com を使う
+ * @returns 許可されないスキームの場合は null
+ */
+export function resolveReadmeUrl(
+  url: string,
+  kind: 'link' | 'image',
+  options: ReadmeRenderOptions
+): string | null {
+  const trimmed = url.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  // スキーム付きの URL は http(s) と mailto のみ許可する
+  const scheme = trimmed.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):/);
+  if (scheme) {
+    const protocol = scheme[1].toLowerCase();
+    if (protocol === 'http' || protocol === 'https') {
+      return trimmed;
+    }
+    return protocol === 'mailto' && kind === 'link' ? trimmed : null;
+  }
+  if (trimmed.startsWith('//')) {
+    return `https:${trimmed}`;
+  }
+
+  const branch = options.branch || 'HEAD';
+  const readmePath = options.readmePath || 'README.md';
+  const blobBase = `https://github.com/${options.repoName}/blob/${branch}/`;
+  const rawBase = `https://raw.githubusercontent.com/${options.repoName}/${branch}/`;
+
+  // README 内のアンカーは GitHub 上の README を指すようにする
+  if (trimmed.startsWith('#')) {
+    return `${blobBase}${readmePath}${trimmed}`;
+  }
+
+  // README のディレクトリを基準に相対パスを解決する
+  const readmeDir = readmePath.includes('/')
+    ? readmePath.substring(0, readmePath.lastIndexOf('/') + 1)
+    : '';
+  const resolved = new URL(
+    trimmed,
+    `https://repo.invalid/${trimmed.startsWith('/') ? '' : readmeDir}`
+  );
+  const relativePath = resolved.pathname.replace(/^\//, '');
+
+  return (
+    (kind === 'image' ? rawBase : blobBase) +
+    relativePath +
+    resolved.search +
+    resolved.hash
+  );
+}
+
+// DOM のノードの種類
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+/**
+ * ノードが要素かどうかを判定する
+ */
+function isElement(node: Node): node is Element {
+  return node.nodeType === ELEMENT_NODE;
+}
+
+/**
+ * 許可リストに基づいて HTML をサニタイズし、相対URLを絶対URLに変換する
+ */
+export function sanitizeReadmeHtml(
+  html: string,
+  options: ReadmeRenderOptions
+): string {
+  const { document } = parseHTML(
+    `<!DOCTYPE html><html><body><div id="readme-root">${html}</div></body></html>`
+  );
+  const root = document.getElementById('readme-root');
+  if (!root) {
+    return escapeHtml(html);
+  }
+
+  const sanitizeNode = (node: Element) => {
+    Array.from(node.childNodes).forEach((child) => {
+      // コメントなどテキスト以外のノードは取り除く
+      if (!isElement(child)) {
+        if (child.nodeType !== TEXT_NODE) {
+          child.remove();
+        }
+        return;
+      }
+
+      const tag = child.tagName.toLowerCase();
+      if (DROPPED_TAGS.includes(tag)) {
+        child.remove();
+        return;
+      }
+
+      sanitizeNode(child);
+
+      const allowedAttributes = ALLOWED_TAGS[tag];
+      if (!allowedAttributes) {
+        // 許可されないタグは中身だけを残す
+        child.replaceWith(...Array.from(child.childNodes));
+        return;
+      }
+
+      Array.from(child.attributes).forEach((attribute) => {
+        if (!allowedAttributes.includes(attribute.name.toLowerCase())) {
+          child.removeAttribute(attribute.name);
+        }
+      });
+
+      if (tag === 'a' && child.hasAttribute('href')) {
+        const href = resolveReadmeUrl(
+          child.getAttribute('href') || '',
+          'link',
+          options
+        );
+        if (href) {
+          child.setAttribute('href', href);
+        } else {
+          child.removeAttribute('href');
+        }
+      }
+
+      if (tag === 'img') {
+        const src = resolveReadmeUrl(
+          child.getAttribute('src') || '',
+          'image',
+          options
+        );
+        if (!src || (options.stripBadges && isBadgeUrl(src))) {
+          child.remove();
+          return;
+        }
+        child.setAttribute('src', src);
+      }
+    });
+  };
+
+  sanitizeNode(root);
+
+  // バッジを取り除いた結果、空になったリンクや段落を取り除く
+  if (options.stripBadges) {
+    ['a', 'p'].forEach((tag) => {
+      root.querySelectorAll(tag).forEach((element) => {
+        if (!element.textContent?.trim() && !element.querySelector('img')) {
+          element.remove();
+        }
+      });
+    });
+  }
+
+  return root.innerHTML.trim();
+}
+
+/**
+ * README を HTML に変換する
+ * Markdown 以外 (reStructuredText やテキスト) の README は整形済みテキストとして表示する
+ */
+export function renderReadmeHtml(
+  readme: string,
+  options: ReadmeRenderOptions
+): string {
+  try {
+    const readmePath = options.readmePath || 'README.md';
+    const isMarkdown = /(\.(md|markdown|mdown|mkdn)|\/?readme)$/i.test(
+      readmePath
+    );
+    const html = isMarkdown
+      ? (marked.parse(readme, { async: false, gfm: true }) as string)
+      : `<pre>${escapeHtml(readme)}</pre>`;
+
+    return sanitizeReadmeHtml(html, options);
+  } catch (error: any) {
+    logger.warn(
+      `Error rendering README for ${options.repoName}: ${error.message}`
+    );
+    return `<pre>${escapeHtml(readme)}</pre>`;
+  }
+}
+
+// 抜粋から取り除くセクションの見出し (目次やインストール手順などの定型的な内容)
+const BOILERPLATE_HEADINGS =
+  /^(table of contents|contents|toc|install(ation|ing)?|getting started|quick ?start|setup|requirements|prerequisites|build(ing)?( from source)?|usage with docker|license|licensing|contribut(e|ing|ors)|acknowledge?ments?|credits|sponsors?|backers|star history|changelog|support|faq|citation)\b/i;
+
+/**
+ * バッジや画像、リンクだけで構成されたブロックかどうかを判定する
+ */
+function isDecorationOnly(raw: string): boolean {
+  const stripped = raw
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[!\[[^\]]*\]\[[^\]]*\]\]\[[^\]]*\]/g, '')
+    .replace(/<\/?(img|a|p|div|picture|source|br|h\d|span)\b[^>]*>/gi, '')
+    .replace(/[\s|•·]/g, '');
+  return stripped.length === 0;
+}
+
+/**
+ * 見出し以外はアンカーへのリンクだけで構成されたリスト (目次) かどうかを判定する
+ */
+function isTableOfContents(token: Token): boolean {
+  if (token.type !== 'list') {
+    return false;
+  }
+  const items = (token as Tokens.List).items;
+  return (
+    items.length > 0 &&
+    items.every((item) => /^\s*\[[^\]]+\]\(#[^)]*\)/.test(item.text))
+  );
+}
+
+/**
+ * README の構造を解析して抜粋を作成する
+ * バッジや目次、インストール手順などを取り除き、冒頭の説明と最初の主要なセクションを
+ * ブロック単位で maxLength に収まるまで残す (ブロックの途中では切らない)
+ */
+export function excerptReadme(readme: string, maxLength: number): string {
+  const tokens = marked.lexer(readme);
+  const blocks: string[] = [];
+  let length = 0;
+  let skipDepth = 0; // 取り除くセクションの見出しレベル (0 は取り除かない)
+
+  for (const token of tokens) {
+    if (token.type === 'heading') {
+      const heading = token as Tokens.Heading;
+      if (skipDepth && heading.depth > skipDepth) {
+        continue;
+      }
+      skipDepth = BOILERPLATE_HEADINGS.test(heading.text.trim())
+        ? heading.depth
+        : 0;
+      if (skipDepth) {
+        continue;
+      }
+    } else if (skipDepth) {
+      continue;
+    }
+
+    if (
+      token.type === 'space' ||
+      (token.type === 'html' && /^\s*<!--/.test(token.raw)) ||
+      ((token.type === 'paragraph' || token.type === 'html') &&
+        isDecorationOnly(token.raw)) ||
+      isTableOfContents(token)
+    ) {
+      continue;
+    }
+
+    const block = token.raw.trim();
+    if (length + block.length > maxLength) {
+      // 最初のブロックが長すぎる場合は文の区切りで切り詰める
+      if (blocks.length === 0 && token.type === 'paragraph') {
+        let cut = block.substring(0, maxLength);
+        // 途中で切れた HTML のタグは取り除く
+        if (cut.lastIndexOf('<') > cut.lastIndexOf('>')) {
+          cut = cut.substring(0, cut.lastIndexOf('<'));
+        }
+        const sentenceEnd = Math.max(
+          cut.lastIndexOf('. '),
+          cut.lastIndexOf('。'),
+          cut.lastIndexOf('\n')
+        );
+        blocks.push(sentenceEnd > 0 ? cut.substring(0, sentenceEnd + 1) : cut);
+      }
+      break;
+    }
+
+    blocks.push(block);
+    length += block.length + 2;
+  }
+
+  const excerpt = blocks.join('\n\n');
+  if (excerpt.length < readme.trim().length) {
+    return (
+      excerpt +
+      '\n\n... [README excerpt. Visit the repository for the complete README] ...'
+    );
+  }
+  return excerpt;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+/**
+ * インライン要素のトークンから書式を除いたテキストを取り出す (画像と HTML は除く)
+ */
+function inlineText(tokens: Token[] = []): string {
+  return tokens
+    .map((token) => {
+      if (token.type === 'image' || token.type === 'html') {
+        return '';
+      }
+      if (token.type === 'br') {
+        return ' ';
+      }
+      if ('tokens' in token && token.tokens) {
+        return inlineText(token.tokens);
+      }
+      return 'text' in token ? token.text : '';
+    })
+    .join('');
+}
+
+/**
+ * README の最初の段落を書式を除いたテキストで返す (一覧のカードなどに表示する短い抜粋)
+ */
+export function readmeSnippet(readme: string, maxLength: number): string {
+  const paragraph = marked
+    .lexer(readme)
+    .find(
+      (token): token is Tokens.Paragraph =>
+        token.type === 'paragraph' && !isDecorationOnly(token.raw)
+    );
+  if (!paragraph) {
+    return '';
+  }
+
+  // marked はテキストを HTML エスケープして返すため元の文字に戻す
+  const text = inlineText(paragraph.tokens)
+    .replace(/&(amp|lt|gt|quot|#39);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.substring(0, maxLength);
+  const wordEnd = cut.lastIndexOf(' ');
+  return `${wordEnd > maxLength / 2 ? cut.substring(0, wordEnd) : cut}…`;
+}
@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { TrendingRepo } from '../types';
+import { logger } from './logger';
+import { mergeTrendingRepos } from './merge';
+
+/**
+ * 指定した順位のリポジトリを作成する
+ */
+function repo(name: string, rank: number): TrendingRepo {
+  return {
+    name,
+    url: `https://github.com/${name}`,
+    rank,
+  } as TrendingRepo;
+}
+
+describe('mergeTrendingRepos', () => {
+  beforeAll(() => {
+    logger.configure({ logLevel: 'ERROR' });
+  });
+
+  test('removes the duplicates by URL and keeps the best rank', () => {
+    const merged = mergeTrendingRepos([
+      { source: 'Python Daily', repos: [repo('octo/a', 1), repo('octo/b', 2)] },
+      { source: 'Go Daily', repos: [repo('octo/c', 1), repo('octo/b', 1)] },
+      { source: 'Rust Daily', repos: [repo('octo/a', 3)] },
+    ]);
+
+    expect(
+      merged.map((repo) => [repo.name, repo.rank, repo.sourceNames])
+    ).toEqual([
+      ['octo/a', 1, ['Python Daily', 'Rust Daily']],
+      ['octo/b', 1, ['Python Daily', 'Go Daily']],
+      ['octo/c', 1, ['Go Daily']],
+    ]);
+  });
+
+  test('records a source once when it lists a repository twice', () => {
+    const merged = mergeTrendingRepos([
+      { source: 'Python Daily', repos: [repo('octo/a', 2), repo('octo/a', 5)] },
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].rank).toBe(2);
+    expect(merged[0].sourceNames).toEqual(['Python Daily']);
+  });
+
+  test('does not modify the repositories of the sources', () => {
+    const python = [repo('octo/a', 3)];
+    mergeTrendingRepos([
+      { source: 'Python Daily', repos: python },
+      { source: 'Go Daily', repos: [repo('octo/a', 1)] },
+    ]);
+
+    expect(python[0].rank).toBe(3);
+    expect(python[0].sourceNames).toBeUndefined();
+  });
+});
@@ -0,0 +1,42 @@
+import { TrendingRepo } from '../types';
+import { logger } from './logger';
+
+/**
+ * 複数ソースのリポジトリ一覧を URL で重複排除してまとめる
+ * 重複したリポジトリは最も良い順位を採用し、含まれていたソース名を記録する
+ */
+export function mergeTrendingRepos(
+  lists: { source: string; repos: TrendingRepo[] }[]
+): TrendingRepo[] {
+  const merged = new Map<string, TrendingRepo>();
+
+  lists.forEach(({ source, repos }) => {
+    repos.forEach((repo) => {
+      const existing = merged.get(repo.url);
+      if (!existing) {
+        merged.set(repo.url, { ...repo, sourceNames: [source] });
+        return;
+      }
+
+      if (!existing.sourceNames?.includes(source)) {
+        existing.sourceNames = [...(existing.sourceNames || []), source];
+      }
+      if (repo.rank < existing.rank) {
+        existing.rank = repo.rank;
+      }
+    });
+  });
+
+  // 最も良い順位の順に並べる (同順位の場合は先に参照したソースを優先)
+  const repos = Array.from(merged.values())
+    .map((repo, index) => ({ repo, index }))
+    .sort((a, b) => a.repo.rank - b.repo.rank || a.index - b.index)
+    .map(({ repo }) => repo);
+
+  const total = lists.reduce((sum, list) => sum + list.repos.length, 0);
+  logger.info(
+    `Merged ${total} repositories from ${lists.length} sources into ${repos.length} unique repositories`
+  );
+
+  return repos;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'bun:test';
+import { DOMParser } from 'linkedom';
+import { generateOpml, OpmlSource } from './opml';
+
+const SOURCES: OpmlSource[] = [
+  {
+    name: 'Python Daily',
+    description: 'The most popular GitHub repositories today for python.',
+    kind: 'repositories',
+    language: 'python',
+    timeRange: 'daily',
+    htmlUrl: 'https://github.com/trending/python?since=daily',
+    outputs: [
+      {
+        format: 'json1',
+        path: './rss/python-daily.json',
+        url: 'https://example.com/python-daily.json',
+      },
+      {
+        format: 'rss2',
+        path: './rss/python-daily.xml',
+        url: 'https://example.com/python-daily.xml',
+      },
+    ],
+  },
+  {
+    name: 'All Languages Weekly',
+    description: 'The most popular GitHub repositories this week.',
+    kind: 'repositories',
+    language: '',
+    timeRange: 'weekly',
+    htmlUrl: 'https://github.com/trending?since=weekly',
+    outputs: [{ format: 'atom1', path: './rss/all-weekly.atom' }],
+  },
+  {
+    name: 'Developers "Daily"',
+    description: 'The most popular GitHub developers today.',
+    kind: 'developers',
+    language: '',
+    timeRange: 'daily',
+    outputs: [{ format: 'rss2', path: './rss/developers-daily.xml' }],
+  },
+  {
+    name: 'Combined',
+    description: 'The most popular GitHub repositories from Python Daily.',
+    kind: 'composite',
+    outputs: [{ format: 'rss2', path: './rss/combined.xml' }],
+  },
+];
+
+/**
+ * OPML を解析してグループごとの outline の属性を返す
+ */
+function parseOpml(xml: string) {
+  const document = new DOMParser().parseFromString(xml, 'text/xml');
+  return {
+    title: document.querySelector('head > title')?.textContent,
+    groups: Array.from(document.querySelectorAll('body > outline')).map(
+      (group: Element) => ({
+        text: group.getAttribute('text'),
+        outlines: Array.from(group.querySelectorAll('outline')).map((outline) =>
+          Object.fromEntries(
+            outline
+              .getAttributeNames()
+              .map((name) => [name, outline.getAttribute(name)])
+          )
+        ),
+      })
+    ),
+  };
+}
+
+describe('generateOpml', () => {
+  test('groups the feeds by time range', () => {
+    const opml = parseOpml(generateOpml(SOURCES, 'timeRange', 'My feeds'));
+
+    expect(opml.title).toBe('My feeds');
+    expect(opml.groups.map((group) => group.text)).toEqual([
+      'Daily',
+      'Weekly',
+      'Combined',
+    ]);
+    expect(opml.groups[0].outlines).toEqual([
+      {
+        type: 'rss',
+        text: 'Python Daily',
+        title: 'Python Daily',
+        description: 'The most popular GitHub repositories today for python.',
+        // RSS 2.0 を優先する
+        xmlUrl: 'https://example.com/python-daily.xml',
+        htmlUrl: 'https://github.com/trending/python?since=daily',
+      },
+      {
+        type: 'rss',
+        text: 'Developers "Daily"',
+        title: 'Developers "Daily"',
+        description: 'The most popular GitHub developers today.',
+        // 公開URLがない場合はファイルのパス
+        xmlUrl: './rss/developers-daily.xml',
+      },
+    ]);
+  });
+
+  test('groups the feeds by language', () => {
+    const opml = parseOpml(generateOpml(SOURCES, 'language'));
+
+    expect(
+      opml.groups.map((group) => [
+        group.text,
+        group.outlines.map((outline) => outline.text),
+      ])
+    ).toEqual([
+      ['python', ['Python Daily']],
+      ['All languages', ['All Languages Weekly', 'Developers "Daily"']],
+      ['Combined', ['Combined']],
+    ]);
+  });
+
+  test('escapes the attributes', () => {
+    const xml = generateOpml([
+      { ...SOURCES[0], name: 'Python <Daily> & "more"' },
+    ]);
+
+    expect(xml).toContain('text="Python &lt;Daily&gt; &amp; &quot;more&quot;"');
+    expect(parseOpml(xml).groups[0].outlines).toHaveLength(1);
+  });
+
+  test('rejects an unknown grouping', () => {
+    expect(() => generateOpml(SOURCES, 'kind' as never)).toThrow(
+      'Unsupported OPML grouping: kind'
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { FeedOutput, OpmlGroupBy, SourceKind } from '../types';
+import { escapeHtml } from './helpers';
+import { isAllLanguages } from './scraper';
+
+export const OPML_GROUP_BY: OpmlGroupBy[] = ['timeRange', 'language'];
+
+export const DEFAULT_OPML_TITLE = 'GitHub Trending RSS';
+
+// 期間のグループの並び順と表示名
+const TIME_RANGE_LABELS: Record<string, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+// RSS 2.0 を優先して購読するフィードを選ぶ
+const FORMAT_PRIORITY = ['rss2', 'atom1', 'json1'];
+
+/**
+ * OPML に掲載するソース
+ */
+export interface OpmlSource {
+  name: string;
+  description: string;
+  kind: SourceKind;
+  language?: string;
+  timeRange?: string;
+  htmlUrl?: string; // ソースのトレンドページのURL
+  outputs: FeedOutput[];
+}
+
+/**
+ * ソースが属するグループの名前を返す
+ */
+function groupOf(source: OpmlSource, groupBy: OpmlGroupBy): string {
+  if (source.kind === 'composite') {
+    return 'Combined';
+  }
+  if (groupBy === 'language') {
+    const language = source.language ?? '';
+    return isAllLanguages(language) ? 'All languages' : language;
+  }
+  return (source.timeRange && TIME_RANGE_LABELS[source.timeRange]) || 'Other';
+}
+
+/**
+ * グループの並び順を返す (期間は daily, weekly, monthly の順、それ以外は出現順)
+ */
+function groupOrder(group: string, groupBy: OpmlGroupBy): number {
+  if (group === 'Combined') {
+    return Number.MAX_SAFE_INTEGER;
+  }
+  if (groupBy === 'timeRange') {
+    const index = Object.values(TIME_RANGE_LABELS).indexOf(group);
+    return index >= 0 ? index : Number.MAX_SAFE_INTEGER - 1;
+  }
+  return 0;
+}
+
+/**
+ * ソースの一覧から OPML 2.0 を生成する
+ * 各ソースは購読する1つのフィード (RSS 2.0 を優先) の outline になる
+ */
+export function generateOpml(
+  sources: OpmlSource[],
+  groupBy: OpmlGroupBy = 'timeRange',
+  title: string = DEFAULT_OPML_TITLE
+): string {
+  if (!OPML_GROUP_BY.includes(groupBy)) {
+    throw new Error(
+      `Unsupported OPML grouping: ${groupBy} (expected one of ${OPML_GROUP_BY.join(', ')})`
+    );
+  }
+
+  const groups = new Map<string, string[]>();
+  sources.forEach((source) => {
+    const output = [...source.outputs].sort(
+      (a, b) =>
+        FORMAT_PRIORITY.indexOf(a.format) - FORMAT_PRIORITY.indexOf(b.format)
+    )[0];
+    if (!output) {
+      return;
+    }
+
+    const attributes = [
+      `type="rss"`,
+      `text="${escapeHtml(source.name)}"`,
+      `title="${escapeHtml(source.name)}"`,
+      `description="${escapeHtml(source.description)}"`,
+      `xmlUrl="${escapeHtml(output.url || output.path)}"`,
+      source.htmlUrl ? `htmlUrl="${escapeHtml(source.htmlUrl)}"` : '',
+    ].filter(Boolean);
+
+    const group = groupOf(source, groupBy);
+    groups.set(group, [
+      ...(groups.get(group) || []),
+      `      <outline ${attributes.join(' ')}/>`,
+    ]);
+  });
+
+  // sort は安定なので、同じ順位のグループは出現順のまま並ぶ
+  const body = [...groups.entries()]
+    .sort(([a], [b]) => groupOrder(a, groupBy) - groupOrder(b, groupBy))
+    .map(
+      ([group, outlines]) =>
+        `    <outline text="${escapeHtml(group)}" title="${escapeHtml(group)}">
+${outlines.join('\n')}
+    </outline>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body>
+${body}
+  </body>
+</opml>
+`;
+}
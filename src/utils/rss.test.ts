@@ -0,0 +1,293 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  setSystemTime,
+  spyOn,
+  test,
+} from 'bun:test';
+import { DOMParser } from 'linkedom';
+import fs from 'fs';
+import path from 'path';
+import { FeedFormat, TrendingRepo } from '../types';
+import { logger } from './logger';
+import {
+  extractFeedIdentity,
+  generateRSSFeed,
+  renderFeed,
+  resolveFeedOutputs,
+  toPublicUrl,
+} from './rss';
+import { parseTrendingRepos } from './scraper';
+
+const FORMATS: FeedFormat[] = ['rss2', 'atom1', 'json1'];
+
+// 保存したトレンドページのリポジトリ
+function fixtureRepos(): TrendingRepo[] {
+  return parseTrendingRepos(
+    fs.readFileSync(
+      path.join(
+        import.meta.dir,
+        '../__fixtures__/trending/repositories-2020.html'
+      ),
+      'utf8'
+    )
+  );
+}
+
+/**
+ * 指定した日時にフィードを生成して各形式に変換する
+ */
+function renderAt(date: string, repos: TrendingRepo[], title = 'Python Daily') {
+  setSystemTime(new Date(date));
+  const feed = generateRSSFeed(repos, title, 'Trending repositories');
+  return (format: FeedFormat) =>
+    extractFeedIdentity(renderFeed(feed, format), format);
+}
+
+describe('extractFeedIdentity', () => {
+  beforeEach(() => {
+    spyOn(logger, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setSystemTime();
+    mock.restore();
+  });
+
+  test.each(FORMATS)(
+    'ignores changed dates, star counts and history in %p',
+    (format) => {
+      const before = renderAt('2026-01-01T00:00:00Z', fixtureRepos())(format);
+
+      const next = fixtureRepos().map((repo, index) => ({
+        ...repo,
+        stars: `${repo.starCount + 100}`,
+        forks: `${repo.forkCount + 10}`,
+        todayStars: '5 stars today',
+        history: {
+          firstSeen: '2026-01-01',
+          lastSeen: '2026-01-02',
+          daysOnChart: 2,
+          peakRank: index + 1,
+          publishedAt: '2026-01-01T00:00:00.000Z',
+        },
+      }));
+      const after = renderAt('2026-01-02T12:34:56Z', next)(format);
+
+      expect(after).toEqual(before);
+      expect(after?.itemIds).toEqual([
+        'https://github.com/microsoft/markitdown',
+        'https://github.com/yt-dlp/yt-dlp',
+        'https://github.com/astral-sh/uv',
+      ]);
+    }
+  );
+
+  test.each(FORMATS)('detects added and removed items in %p', (format) => {
+    const repos = fixtureRepos();
+    const before = renderAt('2026-01-01T00:00:00Z', repos)(format);
+
+    expect(
+      renderAt('2026-01-02T00:00:00Z', repos.slice(0, 2))(format)
+    ).not.toEqual(before);
+    expect(
+      renderAt('2026-01-02T00:00:00Z', [
+        ...repos.slice(0, 2),
+        { ...repos[2], name: 'octo/new', url: 'https://github.com/octo/new' },
+      ])(format)
+    ).not.toEqual(before);
+  });
+
+  test.each(FORMATS)('detects reordered items in %p', (format) => {
+    const repos = fixtureRepos();
+    const before = renderAt('2026-01-01T00:00:00Z', repos)(format);
+
+    expect(
+      renderAt('2026-01-02T00:00:00Z', [...repos].reverse())(format)
+    ).not.toEqual(before);
+  });
+
+  test.each(FORMATS)('detects a changed feed title in %p', (format) => {
+    const repos = fixtureRepos();
+    const before = renderAt('2026-01-01T00:00:00Z', repos)(format);
+
+    expect(before?.title).toBe('Python Daily');
+    expect(
+      renderAt('2026-01-02T00:00:00Z', repos, 'Python Weekly')(format)
+    ).not.toEqual(before);
+  });
+
+  test.each(FORMATS)(
+    'returns null for content that is not a feed in %p',
+    (format) => {
+      expect(extractFeedIdentity('{"items": [', format)).toBeNull();
+    }
+  );
+});
+
+describe('toPublicUrl', () => {
+  test.each([
+    [
+      'https://example.com/feeds',
+      'python.xml',
+      'https://example.com/feeds/python.xml',
+    ],
+    [
+      'https://example.com/feeds/',
+      './out/../python.xml',
+      'https://example.com/feeds/python.xml',
+    ],
+    [
+      'https://example.com',
+      '/public/python.xml',
+      'https://example.com/public/python.xml',
+    ],
+    [
+      'https://example.com',
+      'public\\python.xml',
+      'https://example.com/public/python.xml',
+    ],
+  ])('joins %p and %p', (publicBaseUrl, outputPath, expected) => {
+    expect(toPublicUrl(publicBaseUrl, outputPath)).toBe(expected);
+  });
+});
+
+describe('resolveFeedOutputs', () => {
+  test('derives the path of each format from outputPath', () => {
+    expect(
+      resolveFeedOutputs('feeds/python.daily.xml', undefined, FORMATS)
+    ).toEqual([
+      { format: 'rss2', path: 'feeds/python.daily.xml', url: undefined },
+      { format: 'atom1', path: 'feeds/python.daily.atom', url: undefined },
+      { format: 'json1', path: 'feeds/python.daily.json', url: undefined },
+    ]);
+  });
+
+  test('adds the extension to an outputPath without one', () => {
+    expect(resolveFeedOutputs('feeds/python', undefined, ['json1'])).toEqual([
+      { format: 'json1', path: 'feeds/python.json', url: undefined },
+    ]);
+  });
+
+  test('uses the outputs and keeps their URLs', () => {
+    expect(
+      resolveFeedOutputs(
+        'feeds/python.xml',
+        [
+          { format: 'atom1', path: 'public/python.atom' },
+          {
+            format: 'json1',
+            path: 'public/python.json',
+            url: 'https://cdn.example.com/python.json',
+          },
+        ],
+        FORMATS,
+        'https://example.com'
+      )
+    ).toEqual([
+      {
+        format: 'atom1',
+        path: 'public/python.atom',
+        url: 'https://example.com/public/python.atom',
+      },
+      {
+        format: 'json1',
+        path: 'public/python.json',
+        url: 'https://cdn.example.com/python.json',
+      },
+    ]);
+  });
+
+  test('rejects an unknown format', () => {
+    expect(() =>
+      resolveFeedOutputs('feeds/python.xml', [
+        { format: 'rss1' as FeedFormat, path: 'feeds/python.rdf' },
+      ])
+    ).toThrow(
+      'Unsupported feed format: rss1 (expected one of rss2, atom1, json1)'
+    );
+  });
+});
+
+describe('renderFeed', () => {
+  const outputs = resolveFeedOutputs(
+    'feeds/python.xml',
+    undefined,
+    FORMATS,
+    'https://example.com/'
+  );
+
+  const render = (format: FeedFormat) => {
+    const repos = fixtureRepos();
+    repos[0].contributors = [{ login: 'octocat', avatarUrl: '' }];
+    repos[0].avatarUrl = 'https://avatars.githubusercontent.com/u/1';
+    return renderFeed(
+      generateRSSFeed(repos, 'Python Daily', 'Trending repositories', outputs),
+      format
+    );
+  };
+
+  beforeEach(() => {
+    spyOn(logger, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('converts the JSON Feed to version 1.1', () => {
+    const json = JSON.parse(render('json1'));
+
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.language).toBe('en');
+    expect(json.feed_url).toBe('https://example.com/feeds/python.json');
+    expect(json.authors).toEqual([json.author]);
+    expect(json.items[0].authors).toEqual([
+      { name: 'octocat', url: 'https://github.com/octocat' },
+    ]);
+    expect(json.items[0].image).toBe(
+      'https://avatars.githubusercontent.com/u/1'
+    );
+  });
+
+  test('links the RSS feed to its public URL', () => {
+    const document = new DOMParser().parseFromString(
+      render('rss2'),
+      'text/xml'
+    );
+    const self = document.getElementsByTagName('atom:link')[0];
+
+    expect(self.getAttribute('rel')).toBe('self');
+    expect(self.getAttribute('href')).toBe(
+      'https://example.com/feeds/python.xml'
+    );
+    expect(document.querySelectorAll('item')).toHaveLength(3);
+  });
+
+  test('links the Atom feed to its public URL', () => {
+    const document = new DOMParser().parseFromString(
+      render('atom1'),
+      'text/xml'
+    );
+
+    expect(
+      document.querySelector('feed > link[rel="self"]')?.getAttribute('href')
+    ).toBe('https://example.com/feeds/python.atom');
+    expect(document.querySelectorAll('entry')).toHaveLength(3);
+  });
+
+  test('omits the self links without a public URL', () => {
+    const feed = generateRSSFeed(
+      fixtureRepos(),
+      'Python Daily',
+      'Trending repositories'
+    );
+
+    expect(JSON.parse(renderFeed(feed, 'json1')).feed_url).toBeUndefined();
+    expect(renderFeed(feed, 'rss2')).not.toContain('rel="self"');
+    expect(renderFeed(feed, 'atom1')).not.toContain('rel="self"');
+  });
+});
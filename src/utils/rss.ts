@@ -1,39 +1,258 @@
 import { Feed } from 'feed';
-import { TrendingRepo } from '../types';
+import path from 'path';
+import {
+  TrendingRepo,
+  TrendingDeveloper,
+  RepoHistory,
+  FeedFormat,
+  FeedOutput,
+  Contributor,
+} from '../types';
 import { escapeHtml } from './helpers';
 import { logger } from './logger';
 
+// 出力形式ごとのデフォルトの拡張子
+const FEED_EXTENSIONS: Record<FeedFormat, string> = {
+  rss2: '.xml',
+  atom1: '.atom',
+  json1: '.json',
+};
+
+export const FEED_FORMATS = Object.keys(FEED_EXTENSIONS) as FeedFormat[];
+
+/**
+ * 出力先パスと公開ベースURLから公開URLを生成する
+ */
+export function toPublicUrl(publicBaseUrl: string, outputPath: string): string {
+  const relativePath = path.posix
+    .normalize(outputPath.replace(/\\/g, '/'))
+    .replace(/^\/+/, '');
+  return `${publicBaseUrl.replace(/\/+$/, '')}/${relativePath}`;
+}
+
+/**
+ * ソースの出力先一覧を解決する
+ * outputs が指定されていない場合は outputPath を元に各形式の出力先を決める
+ */
+export function resolveFeedOutputs(
+  outputPath: string,
+  outputs?: FeedOutput[],
+  formats: FeedFormat[] = ['rss2'],
+  publicBaseUrl?: string
+): FeedOutput[] {
+  const resolved: FeedOutput[] =
+    outputs && outputs.length > 0
+      ? outputs
+      : formats.map((format) => ({
+          format,
+          path:
+            format === 'rss2'
+              ? outputPath
+              : outputPath.replace(/\.[^./\\]*$/, '') + FEED_EXTENSIONS[format],
+        }));
+
+  return resolved.map((output) => {
+    if (!FEED_FORMATS.includes(output.format)) {
+      throw new Error(
+        `Unsupported feed format: ${output.format} (expected one of ${FEED_FORMATS.join(', ')})`
+      );
+    }
+    return {
+      ...output,
+      url:
+        output.url ||
+        (publicBaseUrl ? toPublicUrl(publicBaseUrl, output.path) : undefined),
+    };
+  });
+}
+
+/**
+ * feed パッケージが出力する JSON Feed の項目 (1.1 の形式に変換する部分のみ)
+ */
+interface JsonFeedItem {
+  author?: Record<string, string>;
+  authors?: Record<string, string>[];
+  image?: string | { url: string };
+}
+
+/**
+ * フィードを指定された形式の文字列に変換する
+ */
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+  switch (format) {
+    case 'atom1':
+      return feed.atom1();
+    case 'json1': {
+      // feed パッケージは JSON Feed 1.0 を出力するため 1.1 の形式に変換する
+      const json = JSON.parse(feed.json1());
+      json.version = 'https://jsonfeed.org/version/1.1';
+      if (feed.options.language) {
+        json.language = feed.options.language;
+      }
+      if (json.author) {
+        json.authors = [json.author];
+      }
+      json.items.forEach((item: JsonFeedItem) => {
+        if (item.author) {
+          item.authors = [item.author];
+        }
+        // JSON Feed の image は URL 文字列
+        if (item.image && typeof item.image === 'object') {
+          item.image = item.image.url;
+        }
+      });
+      return JSON.stringify(json, null, 4);
+    }
+    default:
+      return feed.rss2();
+  }
+}
+
+/**
+ * フィードのタイトルと項目の ID (掲載しているリポジトリとその順序)
+ */
+export interface FeedIdentity {
+  title: string;
+  itemIds: string[];
+}
+
+/**
+ * 出力済みまたは生成したフィードからタイトルと項目の ID の一覧を取り出す
+ * 掲載する項目が変わったかどうかの判定に使い、日時や Star 数など
+ * 取得するたびに変わる値は比較しない
+ * @returns 解析できない場合は null
+ */
+export function extractFeedIdentity(
+  content: string,
+  format: FeedFormat
+): FeedIdentity | null {
+  try {
+    switch (format) {
+      case 'atom1': {
+        // 最初の entry より前の title がフィードのタイトル
+        const title = content
+          .split('<entry>')[0]
+          .match(/<title[^>]*>([\s\S]*?)<\/title>/)?.[1];
+        if (title === undefined) {
+          return null;
+        }
+        return {
+          title,
+          itemIds: Array.from(
+            content.matchAll(/<entry>[\s\S]*?<\/entry>/g)
+          ).map(([entry]) => entry.match(/<id>([\s\S]*?)<\/id>/)?.[1] || ''),
+        };
+      }
+      case 'json1': {
+        const json = JSON.parse(content);
+        return {
+          title: String(json.title),
+          itemIds: (json.items || []).map((item: { id: string }) =>
+            String(item.id)
+          ),
+        };
+      }
+      default: {
+        const title = content
+          .split('<item>')[0]
+          .match(/<title>([\s\S]*?)<\/title>/)?.[1];
+        if (title === undefined) {
+          return null;
+        }
+        return {
+          title,
+          itemIds: Array.from(content.matchAll(/<item>[\s\S]*?<\/item>/g)).map(
+            ([item]) => item.match(/<guid[^>]*>([\s\S]*?)<\/guid>/)?.[1] || ''
+          ),
+        };
+      }
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * フィードの共通設定で Feed を作成する
+ */
+function createFeed(
+  title: string,
+  description: string,
+  outputs: FeedOutput[],
+  link: string
+): Feed {
+  const currentDate = new Date();
+
+  // 公開URLが分かっている出力だけをフィードリンクとして設定する
+  const feedLinks: Record<string, string> = {};
+  outputs.forEach((output) => {
+    if (!output.url) return;
+    const key =
+      output.format === 'rss2'
+        ? 'rss'
+        : output.format === 'atom1'
+          ? 'atom'
+          : 'json';
+    feedLinks[key] = output.url;
+  });
+
+  return new Feed({
+    title,
+    description,
+    id: link,
+    link,
+    language: 'en',
+    favicon: 'https://github.com/favicon.ico',
+    copyright: `All rights reserved ${currentDate.getFullYear()}, GitHub`,
+    updated: currentDate,
+    generator: 'GitHub Trending RSS Generator',
+    feedLinks,
+    author: {
+      name: 'GitHub Trend RSS Generator',
+      email: 'noreply@github.com',
+      link: 'https://github.com',
+    },
+  });
+}
+
+/**
+ * トレンド履歴を表示用のテキストに変換する
+ */
+export function formatHistory(history: RepoHistory): string {
+  if (history.daysOnChart <= 1) {
+    return 'New today';
+  }
+  return `Day ${history.daysOnChart} on trending (first seen ${history.firstSeen}, peak rank #${history.peakRank})`;
+}
+
+/**
+ * "Built by" のコントリビューターをHTMLに変換する
+ */
+export function formatContributors(contributors: Contributor[]): string {
+  const links = contributors.map(
+    (contributor) =>
+      `<a href="https://github.com/${escapeHtml(contributor.login)}"><img src="${escapeHtml(contributor.avatarUrl)}" alt="@${escapeHtml(contributor.login)}" width="20" height="20" /> ${escapeHtml(contributor.login)}</a>`
+  );
+  return `<p>Built by: ${links.join(', ')}</p>`;
+}
+
 /**
  * トレンドリポジトリの情報をRSSフィードに変換する
  */
 export function generateRSSFeed(
   repos: TrendingRepo[],
   title: string,
-  description: string
+  description: string,
+  outputs: FeedOutput[] = []
 ): Feed {
   try {
     logger.info(`Generating RSS feed with title: ${title}`);
-    const currentDate = new Date();
-    const feed = new Feed({
+    const feed = createFeed(
       title,
       description,
-      id: 'https://github.com/trending',
-      link: 'https://github.com/trending',
-      language: 'en',
-      favicon: 'https://github.com/favicon.ico',
-      copyright: `All rights reserved ${currentDate.getFullYear()}, GitHub`,
-      updated: currentDate,
-      generator: 'GitHub Trending RSS Generator',
-      feedLinks: {
-        json: 'https://github.com/trending/feed.json',
-        atom: 'https://github.com/trending/feed.atom',
-      },
-      author: {
-        name: 'GitHub Trend RSS Generator',
-        email: 'noreply@github.com',
-        link: 'https://github.com',
-      },
-    });
+      outputs,
+      'https://github.com/trending'
+    );
 
     repos.forEach((repo) => {
       try {
@@ -49,20 +268,40 @@ export function generateRSSFeed(
           description: repo.description,
           content: `
             <h1><a href="${repo.url}">${repo.name}</a></h1>
+            ${repo.rank ? `<p>Rank: #${repo.rank}</p>` : ''}
             <p>${repo.description}</p>
             <p>Language: ${repo.language || 'Not specified'}</p>
             <p>Stars: ${repo.stars || '0'}</p>
             <p>Forks: ${repo.forks || '0'}</p>
             <p>Stars today: ${repo.todayStars || '0'}</p>
+            ${repo.history ? `<p>${formatHistory(repo.history)}</p>` : ''}
+            ${repo.sourceNames?.length ? `<p>Trending in: ${repo.sourceNames.map(escapeHtml).join(', ')}</p>` : ''}
+            ${repo.contributors?.length ? formatContributors(repo.contributors) : ''}
+            ${repo.summary ? `<h2>Summary</h2><p>${escapeHtml(repo.summary)}</p>` : ''}
             ${
-  repo.readme
-    ? `<h2>README</h2><pre>${escapeHtml(repo.readme)}</pre>`
-    : ''
+  repo.readmeHtml
+    ? `<h2>README</h2>${repo.readmeHtml}`
+    : repo.readme
+      ? `<h2>README</h2><pre>${escapeHtml(repo.readme)}</pre>`
+      : ''
 }
           `,
-          date: itemDate,
+          // 履歴がある場合は最初に掲載した日時を使い、既読の項目が再び未読にならないようにする
+          date: repo.history ? new Date(repo.history.publishedAt) : itemDate,
           // カテゴリ/タグを追加
           category: repo.language ? [{ name: repo.language }] : [],
+          // コントリビューターを作成者として追加
+          // (空の配列は JSON Feed の変換で失敗するため、いない場合は省略する)
+          author: repo.contributors?.length
+            ? repo.contributors.map((contributor) => ({
+                name: contributor.login,
+                email: `${contributor.login}@users.noreply.github.com`,
+                link: `https://github.com/${contributor.login}`,
+              }))
+            : undefined,
+          image: repo.avatarUrl
+            ? { url: repo.avatarUrl, type: 'image/png' }
+            : undefined,
         });
       } catch (error: any) {
         logger.error(
@@ -77,3 +316,74 @@ export function generateRSSFeed(
     throw error;
   }
 }
+
+/**
+ * トレンド開発者の情報をRSSフィードに変換する
+ */
+export function generateDevelopersFeed(
+  developers: TrendingDeveloper[],
+  title: string,
+  description: string,
+  outputs: FeedOutput[] = []
+): Feed {
+  try {
+    logger.info(`Generating developers feed with title: ${title}`);
+    const feed = createFeed(
+      title,
+      description,
+      outputs,
+      'https://github.com/trending/developers'
+    );
+
+    developers.forEach((developer, index) => {
+      try {
+        const itemDate = new Date();
+
+        // 投稿日時を少しずつずらすことで、RSSリーダーが新しい項目を認識しやすくする
+        itemDate.setSeconds(itemDate.getSeconds() - index);
+
+        const popularRepo = developer.popularRepo;
+        feed.addItem({
+          title:
+            developer.name === developer.login
+              ? developer.login
+              : `${developer.name} (@${developer.login})`,
+          id: developer.url,
+          link: developer.url,
+          description: popularRepo
+            ? `Popular repo: ${popularRepo.name}`
+            : `@${developer.login}`,
+          content: `
+            <h1><a href="${developer.url}">${escapeHtml(developer.name)}</a></h1>
+            <p><img src="${developer.avatarUrl}" alt="@${escapeHtml(developer.login)}" width="96" height="96" /></p>
+            <p>Rank: #${developer.rank}</p>
+            <p>Login: @${escapeHtml(developer.login)}</p>
+            ${
+  popularRepo
+    ? `<h2>Popular repo</h2><p><a href="${popularRepo.url}">${escapeHtml(popularRepo.name)}</a></p><p>${escapeHtml(popularRepo.description)}</p>`
+    : ''
+}
+          `,
+          date: itemDate,
+          author: [
+            {
+              name: developer.login,
+              email: `${developer.login}@users.noreply.github.com`,
+              link: developer.url,
+            },
+          ],
+          image: { url: developer.avatarUrl, type: 'image/png' },
+        });
+      } catch (error: any) {
+        logger.error(
+          `Error adding item to feed for developer ${developer.login}: ${error.message}`
+        );
+      }
+    });
+
+    return feed;
+  } catch (error: any) {
+    logger.error(`Error generating developers feed: ${error.message}`);
+    throw error;
+  }
+}
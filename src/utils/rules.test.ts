@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { RepoRule, TrendingRepo } from '../types';
+import { logger } from './logger';
+import { applyRules, describeRule, matchesRule, needsMetadata } from './rules';
+
+/**
+ * ルールの判定に使うフィールドだけを持つリポジトリを作成する
+ */
+function repo(name: string, fields: Partial<TrendingRepo> = {}): TrendingRepo {
+  const [owner, repoName] = name.split('/');
+  return {
+    name,
+    owner,
+    repoName,
+    url: `https://github.com/${name}`,
+    description: '',
+    language: 'Python',
+    rank: 1,
+    starCount: 1000,
+    forkCount: 100,
+    periodStars: 50,
+    contributors: [],
+    ...fields,
+  } as TrendingRepo;
+}
+
+describe('matchesRule', () => {
+  const markitdown = repo('microsoft/markitdown', {
+    description: 'Python tool for converting files to Markdown',
+    starCount: 41500,
+    periodStars: 1004,
+    license: 'MIT',
+    topics: ['markdown', 'pdf'],
+    contributors: [
+      { login: 'afourney', avatarUrl: '' },
+      { login: 'gagb', avatarUrl: '' },
+    ],
+  });
+
+  test.each([
+    [{ field: 'owner', equals: 'Microsoft' }, true],
+    [{ field: 'owner', equals: 'google' }, false],
+    [{ field: 'owner', in: ['google', 'microsoft'] }, true],
+    [{ field: 'description', matches: 'markdown$' }, true],
+    [{ field: 'description', matches: '^markdown' }, false],
+    [{ field: 'periodStars', min: 1000 }, true],
+    [{ field: 'periodStars', min: 1005 }, false],
+    [{ field: 'starCount', max: 41500 }, true],
+    [{ field: 'starCount', min: 10000, max: 20000 }, false],
+    [{ field: 'rank', equals: 1 }, true],
+    [{ field: 'license', equals: 'mit' }, true],
+    [{ field: 'license', exists: true }, true],
+    [{ field: 'license', exists: false }, false],
+    [{ field: 'topics', in: ['cli', 'pdf'] }, true],
+    [{ field: 'topics', matches: '^mark' }, true],
+    [{ field: 'topics', equals: 'cli' }, false],
+    [{ field: 'builtBy', equals: 'gagb' }, true],
+    [{ field: 'builtBy', in: ['torvalds'] }, false],
+    // すべての条件を満たす場合だけ一致する
+    [{ field: 'description', matches: 'python', exists: true }, true],
+    [{ field: 'language', equals: 'python', matches: '^go' }, false],
+  ] as [Omit<RepoRule, 'action'>, boolean][])(
+    'matches %p: %p',
+    (rule, expected) => {
+      expect(matchesRule(markitdown, { action: 'include', ...rule })).toBe(
+        expected
+      );
+    }
+  );
+
+  test.each([
+    [{ field: 'license', exists: false }, true],
+    [{ field: 'license', exists: true }, false],
+    [{ field: 'license', equals: 'MIT' }, false],
+    [{ field: 'topics', exists: false }, true],
+    [{ field: 'builtBy', exists: false }, true],
+    [{ field: 'description', exists: false }, true],
+  ] as [Omit<RepoRule, 'action'>, boolean][])(
+    'matches %p for missing values: %p',
+    (rule, expected) => {
+      const bare = repo('octo/bare', { topics: [] });
+      expect(matchesRule(bare, { action: 'include', ...rule })).toBe(expected);
+    }
+  );
+
+  test('compares numbers for min and max', () => {
+    const rule: RepoRule = { action: 'include', field: 'forkCount', min: 99 };
+    expect(matchesRule(repo('octo/a', { forkCount: 100 }), rule)).toBe(true);
+    expect(matchesRule(repo('octo/a', { forkCount: 98 }), rule)).toBe(false);
+  });
+});
+
+describe('applyRules', () => {
+  let info: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    info = spyOn(logger, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    info.mockRestore();
+  });
+
+  const repos = () => [
+    repo('octo/one', { rank: 1, periodStars: 40, topics: ['web'] }),
+    repo('octo/two', { rank: 2, periodStars: 500, topics: ['cli'] }),
+    repo('spam/three', { rank: 3, periodStars: 900 }),
+    repo('octo/four', {
+      rank: 4,
+      periodStars: 300,
+      topics: ['cli', 'devtools'],
+    }),
+    repo('octo/five', { rank: 5, periodStars: 200 }),
+  ];
+
+  test('returns the repositories unchanged without rules', () => {
+    const list = repos();
+    expect(applyRules(list, [])).toBe(list);
+  });
+
+  test('drops the excluded repositories and those an include rule does not match', () => {
+    const kept = applyRules(repos(), [
+      { action: 'include', field: 'periodStars', min: 100 },
+      { action: 'exclude', field: 'owner', in: ['spam'] },
+    ]);
+
+    expect(kept.map((kept) => kept.name)).toEqual([
+      'octo/two',
+      'octo/four',
+      'octo/five',
+    ]);
+  });
+
+  test('sorts by the boost score and keeps the rank order for ties', () => {
+    const kept = applyRules(repos(), [
+      { action: 'boost', field: 'topics', equals: 'cli' },
+      { action: 'boost', field: 'topics', equals: 'devtools', weight: 5 },
+      { action: 'boost', field: 'name', equals: 'octo/five', weight: 1 },
+    ]);
+
+    expect(kept.map((kept) => [kept.name, kept.score])).toEqual([
+      ['octo/four', 6],
+      ['octo/two', 1],
+      ['octo/five', 1],
+      ['octo/one', 0],
+      ['spam/three', 0],
+    ]);
+  });
+
+  test('logs why each repository was dropped', () => {
+    applyRules(repos(), [
+      { action: 'include', field: 'periodStars', min: 100, name: 'Hot' },
+      { action: 'exclude', field: 'owner', in: ['spam'] },
+    ]);
+
+    expect(info.mock.calls.map(([message]: unknown[]) => message)).toEqual([
+      'Dropped octo/one: did not match rule "Hot"',
+      'Dropped spam/three: matched rule "exclude owner in [spam]"',
+      'Rules kept 3 of 5 repositories (2 rules)',
+    ]);
+  });
+});
+
+describe('describeRule', () => {
+  test.each([
+    [
+      { action: 'include', field: 'periodStars', min: 100 },
+      'include periodStars >= 100',
+    ],
+    [
+      { action: 'exclude', field: 'description', matches: 'crypto', max: 10 },
+      'exclude description matches /crypto/i and <= 10',
+    ],
+    [
+      { action: 'include', field: 'license', exists: false },
+      'include license does not exist',
+    ],
+    [
+      { action: 'boost', field: 'topics', equals: 'cli', name: 'CLI tools' },
+      'CLI tools',
+    ],
+  ] as [RepoRule, string][])('describes %p as %p', (rule, expected) => {
+    expect(describeRule(rule)).toBe(expected);
+  });
+});
+
+describe('needsMetadata', () => {
+  test('requires the GitHub API only for license and topics', () => {
+    expect(
+      needsMetadata([{ action: 'include', field: 'topics', equals: 'cli' }])
+    ).toBe(true);
+    expect(
+      needsMetadata([{ action: 'include', field: 'license', exists: true }])
+    ).toBe(true);
+    expect(
+      needsMetadata([
+        { action: 'include', field: 'periodStars', min: 1 },
+        { action: 'exclude', field: 'builtBy', in: ['bot'] },
+      ])
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import { TrendingRepo, RepoRule, RuleAction, RuleField } from '../types';
+import { logger } from './logger';
+
+export const RULE_ACTIONS: RuleAction[] = ['include', 'exclude', 'boost'];
+
+export const RULE_FIELDS: RuleField[] = [
+  'name',
+  'owner',
+  'repoName',
+  'description',
+  'language',
+  'rank',
+  'starCount',
+  'forkCount',
+  'periodStars',
+  'license',
+  'topics',
+  'builtBy',
+];
+
+// トレンドページに含まれず、GitHub API から取得する必要があるフィールド
+const METADATA_FIELDS: RuleField[] = ['license', 'topics'];
+
+/**
+ * ルールのログ用の説明を生成する
+ */
+export function describeRule(rule: RepoRule): string {
+  if (rule.name) {
+    return rule.name;
+  }
+
+  const conditions: string[] = [];
+  if (rule.equals !== undefined) conditions.push(`= ${rule.equals}`);
+  if (rule.in !== undefined) conditions.push(`in [${rule.in.join(', ')}]`);
+  if (rule.matches !== undefined) conditions.push(`matches /${rule.matches}/i`);
+  if (rule.min !== undefined) conditions.push(`>= ${rule.min}`);
+  if (rule.max !== undefined) conditions.push(`<= ${rule.max}`);
+  if (rule.exists !== undefined) {
+    conditions.push(rule.exists ? 'exists' : 'does not exist');
+  }
+
+  return `${rule.action} ${rule.field} ${conditions.join(' and ')}`.trim();
+}
+
+/**
+ * 値同士を比較する (文字列は大文字小文字を区別しない)
+ */
+function valueEquals(value: string | number, expected: string | number) {
+  return String(value).toLowerCase() === String(expected).toLowerCase();
+}
+
+/**
+ * 単一の値がルールの条件をすべて満たすか判定する
+ */
+function valueMatches(value: string | number, rule: RepoRule): boolean {
+  if (rule.equals !== undefined && !valueEquals(value, rule.equals)) {
+    return false;
+  }
+  if (
+    rule.in !== undefined &&
+    !rule.in.some((expected) => valueEquals(value, expected))
+  ) {
+    return false;
+  }
+  if (
+    rule.matches !== undefined &&
+    !new RegExp(rule.matches, 'i').test(String(value))
+  ) {
+    return false;
+  }
+  if (rule.min !== undefined && !(Number(value) >= rule.min)) {
+    return false;
+  }
+  if (rule.max !== undefined && !(Number(value) <= rule.max)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * リポジトリがルールの条件に一致するか判定する
+ * topics や builtBy のような配列のフィールドは、いずれかの要素が一致すれば一致とみなす
+ */
+export function matchesRule(repo: TrendingRepo, rule: RepoRule): boolean {
+  // builtBy は "Built by" に表示されるコントリビューターのログイン名
+  const raw =
+    rule.field === 'builtBy'
+      ? (repo.contributors || []).map((contributor) => contributor.login)
+      : repo[rule.field];
+  const values = (Array.isArray(raw) ? raw : [raw]).filter(
+    (value): value is string | number =>
+      value !== undefined && value !== null && value !== ''
+  );
+
+  if (rule.exists !== undefined && (values.length > 0) !== rule.exists) {
+    return false;
+  }
+
+  const hasValueConditions =
+    rule.equals !== undefined ||
+    rule.in !== undefined ||
+    rule.matches !== undefined ||
+    rule.min !== undefined ||
+    rule.max !== undefined;
+  if (!hasValueConditions) {
+    return true;
+  }
+
+  return values.some((value) => valueMatches(value, rule));
+}
+
+/**
+ * ルールの中に GitHub API のメタデータが必要なものがあるか判定する
+ */
+export function needsMetadata(rules: RepoRule[]): boolean {
+  return rules.some((rule) => METADATA_FIELDS.includes(rule.field));
+}
+
+/**
+ * ルールを適用してリポジトリを絞り込み、スコア順に並べ替える
+ * 除外したリポジトリはその理由をログに出力する
+ */
+export function applyRules(
+  repos: TrendingRepo[],
+  rules: RepoRule[]
+): TrendingRepo[] {
+  if (rules.length === 0) {
+    return repos;
+  }
+
+  const kept: TrendingRepo[] = [];
+
+  repos.forEach((repo) => {
+    const excludedBy = rules.find(
+      (rule) =>
+        (rule.action === 'exclude' && matchesRule(repo, rule)) ||
+        (rule.action === 'include' && !matchesRule(repo, rule))
+    );
+    if (excludedBy) {
+      logger.info(
+        `Dropped ${repo.name}: ${
+          excludedBy.action === 'exclude' ? 'matched' : 'did not match'
+        } rule "${describeRule(excludedBy)}"`
+      );
+      return;
+    }
+
+    repo.score = rules
+      .filter((rule) => rule.action === 'boost' && matchesRule(repo, rule))
+      .reduce((score, rule) => score + (rule.weight ?? 1), 0);
+    kept.push(repo);
+  });
+
+  logger.info(
+    `Rules kept ${kept.length} of ${repos.length} repositories (${rules.length} rules)`
+  );
+
+  // スコアの高い順に並べ替える (同点の場合はトレンドページの順位を保つ)
+  return kept
+    .map((repo, index) => ({ repo, index }))
+    .sort(
+      (a, b) => (b.repo.score || 0) - (a.repo.score || 0) || a.index - b.index
+    )
+    .map(({ repo }) => repo);
+}
@@ -0,0 +1,271 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from 'bun:test';
+import { logger } from './logger';
+import { RequestScheduler, retryAfterMs } from './scheduler';
+
+let server: ReturnType<typeof Bun.serve>;
+// 受け付けたリクエストの時刻と同時に処理中のリクエスト数
+let received: { path: string; at: number }[] = [];
+let inFlight = 0;
+let maxInFlight = 0;
+// パスごとに次に返すレスポンス (なくなると 200 を返す)
+let responses: Map<string, (() => Response)[]>;
+
+beforeAll(() => {
+  logger.configure({ logLevel: 'ERROR' });
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      received.push({ path: pathname, at: Date.now() });
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      try {
+        if (pathname === '/slow') {
+          await Bun.sleep(50);
+        }
+        const next = responses.get(pathname)?.shift();
+        return next ? next() : new Response('ok');
+      } finally {
+        inFlight--;
+      }
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  received = [];
+  maxInFlight = 0;
+  responses = new Map();
+});
+
+const url = (pathname: string, host = '127.0.0.1') =>
+  `http://${host}:${server.port}${pathname}`;
+
+describe('retryAfterMs', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+  const response = (headers: Record<string, string>) =>
+    new Response(null, { status: 429, headers });
+
+  test.each([
+    [{ 'Retry-After': '5' }, 5000],
+    [{ 'Retry-After': '0' }, 0],
+    [{ 'Retry-After': 'Thu, 01 Jan 2026 00:00:30 GMT' }, 30000],
+    [{ 'Retry-After': 'Wed, 31 Dec 2025 23:59:00 GMT' }, 0],
+    [{ 'X-RateLimit-Reset': String(now / 1000 + 60) }, 60000],
+    [
+      { 'Retry-After': '2', 'X-RateLimit-Reset': String(now / 1000 + 60) },
+      2000,
+    ],
+    [{}, 1000],
+  ] as [Record<string, string>, number][])(
+    'reads %p as %pms',
+    (headers, expected) => {
+      expect(retryAfterMs(response(headers), now)).toBe(expected);
+    }
+  );
+});
+
+describe('RequestScheduler', () => {
+  test('refills the token bucket at the configured rate', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 10 });
+    const start = Date.now();
+
+    await Promise.all(
+      Array.from({ length: 13 }, () => scheduler.fetch(url('/fast')))
+    );
+
+    // 最初の 10 件はすぐに送り、残りの 3 件は 100ms ごとに送る
+    const sent = received.map((request) => request.at - start);
+    expect(sent).toHaveLength(13);
+    expect(Math.max(...sent.slice(0, 10))).toBeLessThan(250);
+    expect(sent[12]).toBeGreaterThanOrEqual(250);
+  });
+
+  test('limits the concurrent requests per host', async () => {
+    const scheduler = new RequestScheduler({
+      concurrency: 2,
+      requestsPerSecond: 1000,
+    });
+
+    await Promise.all(
+      Array.from({ length: 6 }, () => scheduler.fetch(url('/slow')))
+    );
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  test('applies the host overrides to each host separately', async () => {
+    const scheduler = new RequestScheduler({
+      concurrency: 4,
+      requestsPerSecond: 1000,
+      hosts: { [`127.0.0.1:${server.port}`]: { concurrency: 1 } },
+    });
+
+    await Promise.all(
+      Array.from({ length: 3 }, () => scheduler.fetch(url('/slow')))
+    );
+    expect(maxInFlight).toBe(1);
+
+    maxInFlight = 0;
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        scheduler.fetch(url('/slow', 'localhost'))
+      )
+    );
+    expect(maxInFlight).toBe(4);
+  });
+
+  test('pauses the host for Retry-After and retries', async () => {
+    // 429 を受けてホストを止めた時点で警告が出る
+    let limitedAt: () => void;
+    const rateLimited = new Promise<void>((resolve) => (limitedAt = resolve));
+    const warn = spyOn(logger, 'warn').mockImplementation(() => limitedAt());
+    responses.set('/limited', [
+      () =>
+        new Response('slow down', {
+          status: 429,
+          headers: { 'Retry-After': '1' },
+        }),
+    ]);
+    const scheduler = new RequestScheduler({ requestsPerSecond: 1000 });
+
+    try {
+      const [limited, other] = await Promise.all([
+        scheduler.fetch(url('/limited')),
+        // 429 を受けた後のリクエストも止める
+        rateLimited.then(() => scheduler.fetch(url('/other'))),
+      ]);
+
+      expect(limited.status).toBe(200);
+      expect(other.status).toBe(200);
+      const [first, ...rest] = received;
+      // 再送と後のリクエストは同じ時刻に再開するため順序は問わない
+      expect(first.path).toBe('/limited');
+      expect(rest.map((request) => request.path).sort()).toEqual([
+        '/limited',
+        '/other',
+      ]);
+      rest.forEach((request) =>
+        expect(request.at - first.at).toBeGreaterThanOrEqual(900)
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('retries a 403 with no remaining rate limit until the reset', async () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    responses.set('/api', [
+      () =>
+        new Response('rate limit exceeded', {
+          status: 403,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': String(Math.floor(Date.now() / 1000)),
+          },
+        }),
+      () => new Response('forbidden', { status: 403 }),
+    ]);
+    const scheduler = new RequestScheduler({ requestsPerSecond: 1000 });
+
+    try {
+      const response = await scheduler.fetch(url('/api'));
+
+      // 残り回数のない 403 だけを再送する
+      expect(response.status).toBe(403);
+      expect(await response.text()).toBe('forbidden');
+      expect(received).toHaveLength(2);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('gives up when Retry-After exceeds the maximum wait', async () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    responses.set('/limited', [
+      () =>
+        new Response('slow down', {
+          status: 429,
+          headers: { 'Retry-After': '3600' },
+        }),
+    ]);
+    const scheduler = new RequestScheduler({ maxRetryAfter: 60000 });
+
+    try {
+      const response = await scheduler.fetch(url('/limited'));
+
+      expect(response.status).toBe(429);
+      expect(received).toHaveLength(1);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('which exceeds the maximum wait')
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('returns the last response after the rate limit retries', async () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    const limited = () =>
+      new Response('slow down', {
+        status: 429,
+        headers: { 'Retry-After': '0' },
+      });
+    responses.set('/limited', Array(5).fill(limited));
+    const scheduler = new RequestScheduler({
+      requestsPerSecond: 1000,
+      maxRateLimitRetries: 2,
+    });
+
+    try {
+      const response = await scheduler.fetch(url('/limited'));
+
+      expect(response.status).toBe(429);
+      expect(received).toHaveLength(3);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('cancels the body of a rate-limited response', async () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    let cancelled = 0;
+    const pending = [
+      new Response(
+        new ReadableStream({
+          pull() {},
+          cancel() {
+            cancelled++;
+          },
+        }),
+        { status: 429, headers: { 'Retry-After': '0' } }
+      ),
+      new Response('ok'),
+    ];
+    const fetch = spyOn(globalThis, 'fetch').mockImplementation((async () =>
+      pending.shift()!) as unknown as typeof globalThis.fetch);
+    const scheduler = new RequestScheduler();
+
+    try {
+      const response = await scheduler.fetch(url('/limited'));
+
+      expect(await response.text()).toBe('ok');
+      expect(cancelled).toBe(1);
+    } finally {
+      fetch.mockRestore();
+      warn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,215 @@
+import pLimit from 'p-limit';
+import { HostLimit } from '../types';
+import { logger } from './logger';
+
+/**
+ * スケジューラーの設定
+ */
+export interface SchedulerOptions {
+  concurrency: number; // ホストごとの同時リクエスト数
+  requestsPerSecond: number; // ホストごとの1秒あたりのリクエスト数
+  hosts: Record<string, HostLimit>; // ホストごとの上書き (例: api.github.com)
+  maxRetryAfter: number; // 429 で待つ最大時間 (ミリ秒)。これより長い場合は待たずに返す
+  maxRateLimitRetries: number; // 429 の後に再送する最大回数
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 4,
+  requestsPerSecond: 5,
+  hosts: {},
+  maxRetryAfter: 60000,
+  maxRateLimitRetries: 3,
+};
+
+/**
+ * スケジューラーに渡すリクエストの設定
+ */
+export interface ScheduledRequestInit extends RequestInit {
+  timeout?: number; // 送信してからのタイムアウト (ミリ秒)。順番待ちの時間は含まない
+}
+
+/**
+ * トークンバケットによるレート制限
+ * capacity 個までのリクエストはすぐに送り、それ以降は refill の速度で送る
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private capacity: number,
+    private tokensPerSecond: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) / 1000) * this.tokensPerSecond
+    );
+    this.updatedAt = now;
+  }
+
+  /**
+   * トークンを1つ取得する (足りない場合は補充されるまで待つ)
+   */
+  take(): Promise<void> {
+    // 取得の順番を保つため、前の取得が終わってから処理する
+    this.queue = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        const wait = ((1 - this.tokens) / this.tokensPerSecond) * 1000;
+        await new Promise((resolve) => setTimeout(resolve, wait));
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    return this.queue;
+  }
+}
+
+/**
+ * ホストごとの状態
+ */
+interface HostState {
+  limit: ReturnType<typeof pLimit>;
+  bucket: TokenBucket;
+  pausedUntil: number; // 429 を受けてリクエストを止めている期限
+}
+
+/**
+ * Retry-After または GitHub の x-ratelimit-reset から待つ時間 (ミリ秒) を求める
+ */
+export function retryAfterMs(response: Response, now: number = Date.now()) {
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = response.headers.get('x-ratelimit-reset');
+  if (reset && !Number.isNaN(Number(reset))) {
+    return Math.max(0, Number(reset) * 1000 - now);
+  }
+
+  return 1000;
+}
+
+/**
+ * レート制限を超えたことを示すレスポンスかどうかを判定する
+ * GitHub API は 429 のほか、残り回数が 0 の 403 を返す
+ */
+function isRateLimited(response: Response): boolean {
+  return (
+    response.status === 429 ||
+    (response.status === 403 &&
+      response.headers.get('x-ratelimit-remaining') === '0')
+  );
+}
+
+/**
+ * すべてのリクエストで共有するスケジューラー
+ * ホストごとに同時リクエスト数とトークンバケットで流量を制限し、429 を受けた場合は
+ * Retry-After の間そのホストへのリクエストを止めてから再送する
+ */
+export class RequestScheduler {
+  private options: SchedulerOptions;
+  private hosts = new Map<string, HostState>();
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      const limit = this.options.hosts[host] || {};
+      const requestsPerSecond =
+        limit.requestsPerSecond ?? this.options.requestsPerSecond;
+      state = {
+        limit: pLimit(limit.concurrency ?? this.options.concurrency),
+        bucket: new TokenBucket(
+          Math.max(1, requestsPerSecond),
+          requestsPerSecond
+        ),
+        pausedUntil: 0,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * ホストの制限に従ってリクエストを送る
+   */
+  fetch(url: string, init: ScheduledRequestInit = {}): Promise<Response> {
+    const { timeout, ...requestInit } = init;
+    const host = new URL(url).host;
+    const state = this.hostState(host);
+
+    return state.limit(async () => {
+      for (let attempt = 0; ; attempt++) {
+        const paused = state.pausedUntil - Date.now();
+        if (paused > 0) {
+          await new Promise((resolve) => setTimeout(resolve, paused));
+        }
+        await state.bucket.take();
+
+        const response = await fetch(url, {
+          ...requestInit,
+          signal: timeout ? AbortSignal.timeout(timeout) : requestInit.signal,
+        });
+        if (
+          !isRateLimited(response) ||
+          attempt >= this.options.maxRateLimitRetries
+        ) {
+          return response;
+        }
+
+        const delay = retryAfterMs(response);
+        if (delay > this.options.maxRetryAfter) {
+          logger.warn(
+            `Rate limited by ${host} for ${Math.ceil(delay / 1000)}s, which exceeds the maximum wait; giving up on ${url}`
+          );
+          return response;
+        }
+
+        // 同じホストへの他のリクエストも止める
+        state.pausedUntil = Math.max(state.pausedUntil, Date.now() + delay);
+        logger.warn(
+          `Rate limited by ${host} (${response.status}); retrying in ${Math.ceil(delay / 1000)}s`
+        );
+        // 読まない本文を破棄して接続を解放する
+        await response.body?.cancel();
+      }
+    });
+  }
+}
+
+let scheduler = new RequestScheduler();
+
+/**
+ * 共有のスケジューラーを設定し直す
+ */
+export function configureScheduler(options: Partial<SchedulerOptions>): void {
+  scheduler = new RequestScheduler(options);
+}
+
+/**
+ * 共有のスケジューラーを通してリクエストを送る
+ */
+export function scheduledFetch(
+  url: string,
+  init?: ScheduledRequestInit
+): Promise<Response> {
+  return scheduler.fetch(url, init);
+}
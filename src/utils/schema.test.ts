@@ -0,0 +1,177 @@
+import { describe, expect, test } from 'bun:test';
+import { buildConfigSchema, JsonSchema, validateSchema } from './schema';
+
+describe('validateSchema', () => {
+  test.each([
+    [{ type: 'string' }, 1, 'expected string, got integer'],
+    [{ type: 'integer' }, 1.5, 'expected integer, got number'],
+    [
+      { type: ['string', 'number'] },
+      null,
+      'expected string or number, got null',
+    ],
+    [{ type: 'object' }, [], 'expected object, got array'],
+    [
+      { enum: ['daily', 'weekly'] },
+      'hourly',
+      'expected one of "daily", "weekly", got "hourly"',
+    ],
+    [{ type: 'string', minLength: 1 }, '', 'must not be empty'],
+    [
+      { type: 'string', pattern: '^[a-z]{2}$' },
+      'JA',
+      'expected a string matching ^[a-z]{2}$, got "JA"',
+    ],
+    [{ type: 'integer', minimum: 0 }, -1, 'expected a number >= 0, got -1'],
+    [
+      { type: 'integer', maximum: 65535 },
+      70000,
+      'expected a number <= 65535, got 70000',
+    ],
+    [
+      { type: 'number', exclusiveMinimum: 0 },
+      0,
+      'expected a number > 0, got 0',
+    ],
+    [{ type: 'array', minItems: 1 }, [], 'expected at least 1 item(s)'],
+  ] as [JsonSchema, unknown, string][])(
+    'reports %p for %p',
+    (schema, value, message) => {
+      expect(validateSchema(value, schema)).toEqual([
+        { path: '(root)', message },
+      ]);
+    }
+  );
+
+  test('accepts an integer as a number', () => {
+    expect(validateSchema(3, { type: 'number', minimum: 1 })).toEqual([]);
+  });
+
+  test('reports every error with its path', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { count: { type: 'integer', minimum: 1 } },
+            required: ['count'],
+          },
+        },
+      },
+      required: ['name'],
+    };
+
+    expect(
+      validateSchema({ items: [{ count: 1 }, { count: 0 }, {}] }, schema)
+    ).toEqual([
+      { path: '(root)', message: 'missing required property "name"' },
+      { path: 'items[1].count', message: 'expected a number >= 1, got 0' },
+      { path: 'items[2]', message: 'missing required property "count"' },
+    ]);
+  });
+
+  test('validates the values of arbitrary keys against additionalProperties', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      additionalProperties: { type: 'integer' },
+    };
+
+    expect(validateSchema({ a: 1, b: 'two' }, schema)).toEqual([
+      { path: 'b', message: 'expected integer, got string' },
+    ]);
+  });
+});
+
+describe('buildConfigSchema', () => {
+  const validate = (config: unknown) =>
+    validateSchema(config, buildConfigSchema());
+
+  test('accepts a valid config', () => {
+    expect(
+      validate({
+        include: ['shared.yaml'],
+        global: {
+          logLevel: 'DEBUG',
+          hostLimits: { 'github.com': { concurrency: 1 } },
+        },
+        sources: [
+          {
+            name: 'Python Daily',
+            language: 'python',
+            timeRange: 'daily',
+            outputs: [{ format: 'atom1', path: 'feeds/python.atom' }],
+            rules: [{ action: 'include', field: 'periodStars', min: 100 }],
+          },
+        ],
+        server: { port: 8080 },
+      })
+    ).toEqual([]);
+  });
+
+  test.each([
+    ['cacheExpiy', 'cacheExpiry'],
+    ['loglevel', 'logLevel'],
+    ['userAgnet', 'userAgent'],
+  ])('suggests a property for the typo %p', (key, suggestion) => {
+    expect(validate({ global: { [key]: 1 } })).toEqual([
+      {
+        path: `global.${key}`,
+        message: `unknown property (did you mean "${suggestion}"?)`,
+      },
+    ]);
+  });
+
+  test('reports an unknown property without a similar name', () => {
+    expect(validate({ sources: [{ name: 'a', somethingElse: true }] })).toEqual(
+      [{ path: 'sources[0].somethingElse', message: 'unknown property' }]
+    );
+  });
+
+  test.each(['logLevel', 'requestsPerSecond', 'fixtureMode', 'siteDir'])(
+    'rejects the run-wide option %p in a source',
+    (key) => {
+      expect(validate({ sources: [{ name: 'a', [key]: 'x' }] })).toEqual([
+        expect.objectContaining({
+          path: `sources[0].${key}`,
+          message: expect.stringMatching(/^unknown property/),
+        }),
+      ]);
+    }
+  );
+
+  test('reports invalid values in sources and rules', () => {
+    expect(
+      validate({
+        sources: [
+          {
+            name: '',
+            timeRange: 'hourly',
+            spokenLanguage: 'japanese',
+            rules: [{ action: 'drop', field: 'stars' }],
+          },
+        ],
+      })
+    ).toEqual([
+      { path: 'sources[0].name', message: 'must not be empty' },
+      {
+        path: 'sources[0].timeRange',
+        message: 'expected one of "daily", "weekly", "monthly", got "hourly"',
+      },
+      {
+        path: 'sources[0].spokenLanguage',
+        message: 'expected a string matching ^[a-z]{2}$, got "japanese"',
+      },
+      {
+        path: 'sources[0].rules[0].action',
+        message: 'expected one of "include", "exclude", "boost", got "drop"',
+      },
+      {
+        path: 'sources[0].rules[0].field',
+        message: expect.stringMatching(/^expected one of "name", /),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,511 @@
+import { SourceKind } from '../types';
+import { CACHE_BACKENDS } from './cache';
+import { FIXTURE_MODES } from './http';
+import { OPML_GROUP_BY } from './opml';
+import { FEED_FORMATS } from './rss';
+import { RULE_ACTIONS, RULE_FIELDS } from './rules';
+import { SUMMARY_PROVIDERS } from './summarizer';
+
+type SchemaType =
+  'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+/**
+ * 設定ファイルの検証に使う JSON Schema (draft-07 のサブセット)
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: SchemaType | SchemaType[];
+  enum?: (string | number)[];
+  pattern?: string;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema; // スキーマを指定した場合は任意のキーの値を検証する
+}
+
+/**
+ * 検証エラー
+ */
+export interface SchemaError {
+  path: string; // エラーの位置 (例: sources[2].timeRange)
+  message: string;
+}
+
+export const TIME_RANGES = ['daily', 'weekly', 'monthly'];
+
+export const SOURCE_KINDS: SourceKind[] = [
+  'repositories',
+  'developers',
+  'composite',
+];
+
+export const LOG_LEVELS = ['DEBUG', 'INFO', 'WARN', 'ERROR'];
+
+const README_STRATEGIES = ['full', 'truncate', 'excerpt', 'none'];
+
+// 実行全体に適用されるため global でのみ指定できるオプション
+export const RUN_WIDE_OPTIONS = [
+  'logLevel',
+  'enableFileLogging',
+  'cacheBackend',
+  'cacheMaxSize',
+  'maxConcurrentSources',
+  'maxRequestsPerHost',
+  'requestsPerSecond',
+  'hostLimits',
+  'requestTimeout',
+  'maxRetries',
+  'userAgent',
+  'proxy',
+  'fixtureMode',
+  'fixtureDir',
+  'siteDir',
+];
+
+/**
+ * global と各ソースで共通のオプションのスキーマ
+ */
+function optionProperties(): Record<string, JsonSchema> {
+  return {
+    cacheDir: { type: 'string', description: 'Cache directory' },
+    cacheExpiry: {
+      type: 'integer',
+      minimum: 0,
+      description: 'Trending page cache expiry in milliseconds',
+    },
+    readmeCacheExpiry: {
+      type: 'integer',
+      minimum: 0,
+      description: 'README cache expiry in milliseconds',
+    },
+    cacheBackend: { enum: CACHE_BACKENDS, description: 'Cache backend' },
+    cacheMaxSize: {
+      type: 'integer',
+      exclusiveMinimum: 0,
+      description: 'Maximum cache size in bytes',
+    },
+    useCache: { type: 'boolean' },
+    maxReadmeLength: { type: 'integer', minimum: 1 },
+    readmeStrategy: {
+      enum: README_STRATEGIES,
+      description: 'How READMEs are included in feed items',
+    },
+    stripBadges: { type: 'boolean' },
+    logLevel: { enum: LOG_LEVELS },
+    enableFileLogging: { type: 'boolean' },
+    parallel: { type: 'boolean' },
+    maxParallelRequests: { type: 'integer', minimum: 1 },
+    maxConcurrentSources: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Number of sources processed at the same time',
+    },
+    maxRequestsPerHost: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Concurrent requests per host, shared by all sources',
+    },
+    requestsPerSecond: {
+      type: 'number',
+      exclusiveMinimum: 0,
+      description: 'Requests per second per host, shared by all sources',
+    },
+    hostLimits: {
+      type: 'object',
+      description: 'Per-host overrides keyed by host name',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          concurrency: { type: 'integer', minimum: 1 },
+          requestsPerSecond: { type: 'number', exclusiveMinimum: 0 },
+        },
+        additionalProperties: false,
+      },
+    },
+    requestTimeout: {
+      type: 'integer',
+      exclusiveMinimum: 0,
+      description: 'Timeout of a single HTTP request in milliseconds',
+    },
+    maxRetries: {
+      type: 'integer',
+      minimum: 0,
+      description: 'Retries on network errors, timeouts and 5xx responses',
+    },
+    userAgent: { type: 'string', minLength: 1 },
+    proxy: { type: 'string', description: 'HTTP proxy URL' },
+    fixtureMode: {
+      enum: FIXTURE_MODES,
+      description: 'Record HTTP responses to fixtureDir or replay them offline',
+    },
+    fixtureDir: { type: 'string' },
+    minParsedItems: {
+      type: 'integer',
+      minimum: 0,
+      description:
+        'Fail the source instead of overwriting its feed when fewer items are parsed from the trending page',
+    },
+    debugDir: {
+      type: 'string',
+      description:
+        'Directory the HTML of unparseable trending pages is saved to',
+    },
+    historyPath: {
+      type: 'string',
+      description: 'JSONL file the trend history is recorded in',
+    },
+    onlyNew: { type: 'boolean' },
+    newWithinDays: { type: 'integer', minimum: 1 },
+    publicBaseUrl: {
+      type: 'string',
+      description: 'Public base URL the feeds are published under',
+    },
+    siteDir: {
+      type: 'string',
+      description:
+        'Directory an HTML dashboard of all feeds is written to (not written when omitted)',
+    },
+    githubApiUrl: { type: 'string' },
+    githubToken: {
+      type: 'string',
+      description: 'GitHub API token, usually "${GITHUB_TOKEN}"',
+    },
+    summary: {
+      type: 'object',
+      properties: {
+        provider: { enum: SUMMARY_PROVIDERS },
+        baseUrl: { type: 'string' },
+        model: { type: 'string' },
+        apiKeyEnv: { type: 'string' },
+        prompt: { type: 'string' },
+        promptsPath: { type: 'string' },
+        maxTokens: { type: 'integer', minimum: 1 },
+        timeout: { type: 'integer', minimum: 1 },
+      },
+      required: ['provider'],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * 設定ファイルのスキーマを生成する
+ */
+export function buildConfigSchema(): JsonSchema {
+  const rule: JsonSchema = {
+    type: 'object',
+    properties: {
+      action: { enum: RULE_ACTIONS },
+      field: { enum: RULE_FIELDS },
+      equals: { type: ['string', 'number'] },
+      in: { type: 'array', items: { type: ['string', 'number'] } },
+      matches: { type: 'string', description: 'Case-insensitive pattern' },
+      min: { type: 'number' },
+      max: { type: 'number' },
+      exists: { type: 'boolean' },
+      weight: { type: 'number' },
+      name: { type: 'string' },
+    },
+    required: ['action', 'field'],
+    additionalProperties: false,
+  };
+
+  const source: JsonSchema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      kind: { enum: SOURCE_KINDS },
+      sources: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Names of the sources a composite source combines',
+      },
+      language: {
+        type: 'string',
+        description: 'Programming language ("" for all languages)',
+      },
+      timeRange: { enum: TIME_RANGES },
+      spokenLanguage: {
+        type: 'string',
+        pattern: '^[a-z]{2}$',
+        description: 'ISO 639-1 code such as "ja"',
+      },
+      outputPath: { type: 'string' },
+      outputs: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            format: { enum: FEED_FORMATS },
+            path: { type: 'string' },
+            url: { type: 'string' },
+          },
+          required: ['format', 'path'],
+          additionalProperties: false,
+        },
+      },
+      baseUrl: { type: 'string' },
+      rules: { type: 'array', items: rule },
+      ...Object.fromEntries(
+        Object.entries(optionProperties()).filter(
+          ([key]) => !RUN_WIDE_OPTIONS.includes(key)
+        )
+      ),
+    },
+    required: ['name'],
+    additionalProperties: false,
+  };
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'github-trend-rss config',
+    type: 'object',
+    properties: {
+      $schema: { type: 'string' },
+      include: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Other config files to merge, relative to this file',
+      },
+      global: {
+        type: 'object',
+        properties: optionProperties(),
+        additionalProperties: false,
+      },
+      sources: { type: 'array', items: source },
+      opml: {
+        type: 'object',
+        description: 'OPML list of all feeds',
+        properties: {
+          outputPath: {
+            type: 'string',
+            description: 'Write the OPML file here on every --config run',
+          },
+          title: { type: 'string' },
+          groupBy: { enum: OPML_GROUP_BY },
+          publicBaseUrl: {
+            type: 'string',
+            description:
+              'Public base URL of the feed links (defaults to the publicBaseUrl of each source)',
+          },
+        },
+        additionalProperties: false,
+      },
+      server: {
+        type: 'object',
+        description: 'Settings of the serve command',
+        properties: {
+          port: { type: 'integer', minimum: 0, maximum: 65535 },
+          host: { type: 'string' },
+          outputDir: {
+            type: 'string',
+            description: 'Only feeds inside this directory are served',
+          },
+          staleAfter: {
+            type: 'integer',
+            minimum: 0,
+            description:
+              'Milliseconds after which a feed is regenerated on request (defaults to the cacheExpiry of the source)',
+          },
+        },
+        additionalProperties: false,
+      },
+    },
+    additionalProperties: false,
+  };
+}
+
+/**
+ * 値の JSON Schema 上の型を返す
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * 型が一致するか判定する (integer は number としても扱う)
+ */
+function matchesType(value: unknown, type: SchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * 2つの文字列の編集距離を返す
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 大文字小文字の違いや2文字以内のタイプミスから候補のプロパティ名を探す
+ */
+function suggestProperty(
+  key: string,
+  candidates: string[]
+): string | undefined {
+  const lower = key.toLowerCase();
+  return candidates.find(
+    (candidate) => editDistance(lower, candidate.toLowerCase()) <= 2
+  );
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * 値をスキーマで検証し、見つかったエラーをすべて返す
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = ''
+): SchemaError[] {
+  const location = path || '(root)';
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [
+      {
+        path: location,
+        message: `expected one of ${schema.enum
+          .map((item) => JSON.stringify(item))
+          .join(', ')}, got ${JSON.stringify(value)}`,
+      },
+    ];
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [
+        {
+          path: location,
+          message: `expected ${types.join(' or ')}, got ${typeOf(value)}`,
+        },
+      ];
+    }
+  }
+
+  const errors: SchemaError[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path: location, message: 'must not be empty' });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({
+        path: location,
+        message: `expected a string matching ${schema.pattern}, got ${JSON.stringify(value)}`,
+      });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({
+        path: location,
+        message: `expected a number >= ${schema.minimum}, got ${value}`,
+      });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({
+        path: location,
+        message: `expected a number <= ${schema.maximum}, got ${value}`,
+      });
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      errors.push({
+        path: location,
+        message: `expected a number > ${schema.exclusiveMinimum}, got ${value}`,
+      });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({
+        path: location,
+        message: `expected at least ${schema.minItems} item(s)`,
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(
+          ...validateSchema(
+            item,
+            schema.items as JsonSchema,
+            joinPath(path, index)
+          )
+        );
+      });
+    }
+  }
+
+  if (
+    typeOf(value) === 'object' &&
+    (schema.properties || typeof schema.additionalProperties === 'object')
+  ) {
+    const object = value as Record<string, unknown>;
+    const known = Object.keys(schema.properties || {});
+
+    schema.required?.forEach((key) => {
+      if (object[key] === undefined) {
+        errors.push({
+          path: location,
+          message: `missing required property "${key}"`,
+        });
+      }
+    });
+
+    Object.entries(object).forEach(([key, child]) => {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateSchema(child, childSchema, joinPath(path, key)));
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(
+          ...validateSchema(
+            child,
+            schema.additionalProperties,
+            joinPath(path, key)
+          )
+        );
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggestProperty(key, known);
+        errors.push({
+          path: joinPath(path, key),
+          message: `unknown property${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`,
+        });
+      }
+    });
+  }
+
+  return errors;
+}
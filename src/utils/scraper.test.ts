@@ -0,0 +1,549 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TrendingRepo, TrendPeriod } from '../types';
+import { configureHttp, DEFAULT_HTTP_OPTIONS } from './http';
+import { logger } from './logger';
+import {
+  checkParseResult,
+  fetchReadme,
+  fetchReadmeFromApi,
+  ParseResult,
+  parseCount,
+  parsePeriod,
+  parseTrendingDevelopersPage,
+  parseTrendingPage,
+  README_NOT_AVAILABLE,
+  resolveReadme,
+} from './scraper';
+
+describe('parseCount', () => {
+  test.each([
+    ['1,234', 1234],
+    ['1.234', 1234],
+    ['1 234', 1234],
+    ['1 234', 1234],
+    ["1'234", 1234],
+    ['1.2k', 1200],
+    ['1,2k', 1200],
+    ['3M', 3000000],
+    ['56 stars this week', 56],
+    ['  789  ', 789],
+    ['', 0],
+    ['n/a', 0],
+  ])('parses %p as %p', (text, expected) => {
+    expect(parseCount(text)).toBe(expected);
+  });
+});
+
+describe('parsePeriod', () => {
+  test.each([
+    ['56 stars today', undefined, 'day'],
+    ['56 stars this week', undefined, 'week'],
+    ['1,234 stars this month', 'daily', 'month'],
+    ['', 'weekly', 'week'],
+    ['', 'monthly', 'month'],
+    ['', undefined, 'day'],
+    ['???', 'daily', 'day'],
+  ] as [string, string | undefined, TrendPeriod][])(
+    'parses %p (timeRange %p) as %p',
+    (text, timeRange, expected) => {
+      expect(parsePeriod(text, timeRange)).toBe(expected);
+    }
+  );
+});
+
+// 保存したトレンドページ
+function readFixture(name: string): string {
+  return fs.readFileSync(
+    path.join(import.meta.dir, '../__fixtures__/trending', name),
+    'utf8'
+  );
+}
+
+describe('parseTrendingPage', () => {
+  test('parses the current layout', () => {
+    const result = parseTrendingPage(readFixture('repositories-2020.html'));
+
+    expect(result.version).toBe('box-row-2020');
+    expect(result.rows).toBe(3);
+    expect(result.items.map((repo) => repo.name)).toEqual([
+      'microsoft/markitdown',
+      'yt-dlp/yt-dlp',
+      'astral-sh/uv',
+    ]);
+    expect(result.items[0]).toMatchObject({
+      rank: 1,
+      owner: 'microsoft',
+      repoName: 'markitdown',
+      url: 'https://github.com/microsoft/markitdown',
+      description:
+        'Python tool for converting files and office documents to Markdown.',
+      language: 'Python',
+      stars: '41,522',
+      forks: '1,906',
+      todayStars: '1,004 stars today',
+      starCount: 41522,
+      forkCount: 1906,
+      periodStars: 1004,
+      period: 'day',
+      avatarUrl: 'https://github.com/microsoft.png',
+      contributors: [
+        {
+          login: 'afourney',
+          avatarUrl: 'https://avatars.githubusercontent.com/u/4017093?s=40&v=4',
+        },
+        {
+          login: 'gagb',
+          avatarUrl:
+            'https://avatars.githubusercontent.com/u/13227607?s=40&v=4',
+        },
+      ],
+    });
+    // オーナーが Built by に含まれる場合はその画像を使う
+    expect(result.items[1].avatarUrl).toBe(
+      'https://avatars.githubusercontent.com/u/79589310'
+    );
+    // 説明と Built by がない場合
+    expect(result.items[2]).toMatchObject({
+      description: '',
+      language: 'Rust',
+      starCount: 52300,
+      contributors: [],
+    });
+  });
+
+  test('parses the 2019 layout', () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    let result: ParseResult<TrendingRepo>;
+    try {
+      result = parseTrendingPage(
+        readFixture('repositories-2019.html'),
+        'weekly'
+      );
+      expect(warn).toHaveBeenCalledWith(
+        'Parsed repository elements with the fallback selectors "repo-list-2019". The GitHub page structure might have changed.'
+      );
+    } finally {
+      warn.mockRestore();
+    }
+
+    expect(result.version).toBe('repo-list-2019');
+    expect(result.items).toHaveLength(2);
+    expect(result.items[0]).toMatchObject({
+      rank: 1,
+      name: 'psf/requests',
+      description: 'A simple, yet elegant HTTP library.',
+      language: 'Python',
+      starCount: 40231,
+      forkCount: 7452,
+      todayStars: '321 stars this week',
+      periodStars: 321,
+      period: 'week',
+    });
+    expect(result.items[1]).toMatchObject({
+      rank: 2,
+      name: 'psf/black',
+      forkCount: 645,
+      periodStars: 208,
+    });
+  });
+
+  test('falls back to the generic selectors and warns', () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    try {
+      const html = readFixture('repositories-2020.html').replace(
+        /Box-row/g,
+        'Box-item'
+      );
+      const result = parseTrendingPage(html);
+
+      expect(result.version).toBe('generic');
+      expect(result.items.map((repo) => repo.name)).toEqual([
+        'microsoft/markitdown',
+        'yt-dlp/yt-dlp',
+        'astral-sh/uv',
+      ]);
+      // Star ボタンではなく期間中の Star 数を読む
+      expect(result.items[0].todayStars).toBe('1,004 stars today');
+      expect(warn).toHaveBeenCalledWith(
+        'Parsed repository elements with the fallback selectors "generic". The GitHub page structure might have changed.'
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('does not warn for the current layout', () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    try {
+      parseTrendingPage(readFixture('repositories-2020.html'));
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('returns no items for the empty page', () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    try {
+      const result = parseTrendingPage(readFixture('repositories-empty.html'));
+      expect(result.items).toEqual([]);
+      expect(result.version).toBeUndefined();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('parseTrendingDevelopersPage', () => {
+  test('parses the current layout', () => {
+    const result = parseTrendingDevelopersPage(
+      readFixture('developers-2020.html')
+    );
+
+    expect(result.version).toBe('box-row-2020');
+    expect(result.items).toEqual([
+      {
+        rank: 1,
+        name: 'Linus Torvalds',
+        login: 'torvalds',
+        url: 'https://github.com/torvalds',
+        avatarUrl: 'https://avatars.githubusercontent.com/u/1024025',
+        popularRepo: {
+          name: 'torvalds/linux',
+          url: 'https://github.com/torvalds/linux',
+          description: 'Linux kernel source tree',
+        },
+      },
+      {
+        rank: 2,
+        name: 'Andrej',
+        login: 'karpathy',
+        url: 'https://github.com/karpathy',
+        avatarUrl: 'https://avatars.githubusercontent.com/u/241138',
+        popularRepo: {
+          name: 'karpathy/nanoGPT',
+          url: 'https://github.com/karpathy/nanoGPT',
+          description:
+            'The simplest, fastest repository for training/finetuning medium-sized GPTs.',
+        },
+      },
+      {
+        rank: 3,
+        name: 'octocat',
+        login: 'octocat',
+        url: 'https://github.com/octocat',
+        avatarUrl: 'https://avatars.githubusercontent.com/u/583231',
+        popularRepo: undefined,
+      },
+    ]);
+  });
+
+  test('falls back to the generic selectors and warns', () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    try {
+      const html = readFixture('developers-2020.html').replace(
+        /Box-row/g,
+        'Box-item'
+      );
+      const result = parseTrendingDevelopersPage(html);
+
+      expect(result.version).toBe('generic');
+      expect(
+        result.items.map((developer) => [
+          developer.login,
+          developer.popularRepo?.name,
+        ])
+      ).toEqual([
+        ['torvalds', 'torvalds/linux'],
+        ['karpathy', 'karpathy/nanoGPT'],
+        ['octocat', undefined],
+      ]);
+      expect(warn).toHaveBeenCalledWith(
+        'Parsed developer elements with the fallback selectors "generic". The GitHub page structure might have changed.'
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('returns no items for the empty page', () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    try {
+      const result = parseTrendingDevelopersPage(
+        readFixture('developers-empty.html')
+      );
+      expect(result.items).toEqual([]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('checkParseResult', () => {
+  const url = 'https://github.com/trending/python?since=daily';
+  let debugDir: string;
+
+  beforeEach(() => {
+    debugDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trending-debug-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(debugDir, { recursive: true, force: true });
+  });
+
+  test('accepts a fully parsed page', () => {
+    const html = readFixture('repositories-2020.html');
+    expect(() =>
+      checkParseResult(html, parseTrendingPage(html), url, { minItems: 3 })
+    ).not.toThrow();
+  });
+
+  test.each(['repositories-empty.html', 'developers-empty.html'])(
+    'accepts the empty page %p',
+    (name) => {
+      const html = readFixture(name);
+      expect(() =>
+        checkParseResult(html, { items: [], rows: 0 }, url, { debugDir })
+      ).not.toThrow();
+      expect(fs.readdirSync(debugDir)).toEqual([]);
+    }
+  );
+
+  test('rejects too few items', () => {
+    const html = readFixture('repositories-2020.html');
+    expect(() =>
+      checkParseResult(html, parseTrendingPage(html), url, { minItems: 5 })
+    ).toThrow('parsed 3 item(s), expected at least 5');
+  });
+
+  test('rejects a page where most rows could not be parsed', () => {
+    const html = readFixture('repositories-2020.html');
+    const result = parseTrendingPage(html);
+    expect(() =>
+      checkParseResult(
+        html,
+        { ...result, items: result.items.slice(0, 1) },
+        url
+      )
+    ).toThrow('parsed only 1 of 3 item(s)');
+  });
+
+  test('saves the page to debugDir before throwing', () => {
+    const html = '<html><body><p>Something else</p></body></html>';
+    let message = '';
+    try {
+      checkParseResult(html, { items: [], rows: 0 }, url, { debugDir });
+    } catch (error: any) {
+      message = error.message;
+    }
+
+    const files = fs.readdirSync(debugDir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toEndWith('_github_com_trending_python_since_daily.html');
+    expect(fs.readFileSync(path.join(debugDir, files[0]), 'utf8')).toBe(html);
+    expect(message).toContain(
+      `Unexpected page structure at ${url}: parsed 0 item(s), expected at least 1.`
+    );
+    expect(message).toContain(
+      `Saved the page to ${path.join(debugDir, files[0])}.`
+    );
+  });
+});
+
+describe('README', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requests: { path: string; headers: Headers }[] = [];
+  let cacheDir: string;
+  const token = process.env.GITHUB_TOKEN;
+
+  // GitHub API の GET /repos/{owner}/{repo}/readme のレスポンス
+  const README_RESPONSE = {
+    path: 'docs/README.md',
+    content: Buffer.from('# Docs\n\nHello.').toString('base64'),
+    encoding: 'base64',
+    html_url: 'https://github.com/octo/docs/blob/release/2.x/docs/README.md',
+  };
+
+  beforeAll(() => {
+    logger.configure({ logLevel: 'ERROR' });
+    configureHttp({ retryDelay: 0 });
+    delete process.env.GITHUB_TOKEN;
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const { pathname } = new URL(request.url);
+        requests.push({ path: pathname, headers: request.headers });
+        switch (pathname) {
+          case '/api/repos/octo/docs/readme':
+            return request.headers.get('If-None-Match') === '"v1"'
+              ? new Response(null, { status: 304 })
+              : Response.json(README_RESPONSE, { headers: { ETag: '"v1"' } });
+          case '/api/repos/octo/broken/readme':
+            return new Response('error', { status: 500 });
+          case '/raw/octo/docs/main/README.md':
+          case '/raw/octo/broken/main/README.md':
+            return new Response('# Raw README');
+          case '/raw/octo/legacy/master/README.md':
+            return new Response('# Legacy README');
+          default:
+            return new Response('Not Found', { status: 404 });
+        }
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    configureHttp({ retryDelay: DEFAULT_HTTP_OPTIONS.retryDelay });
+    if (token !== undefined) {
+      process.env.GITHUB_TOKEN = token;
+    }
+  });
+
+  beforeEach(() => {
+    requests = [];
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'readme-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const apiUrl = () => `http://127.0.0.1:${server.port}/api`;
+  const rawUrl = () => `http://127.0.0.1:${server.port}/raw`;
+
+  test('fetches the README from the API', async () => {
+    const readme = await fetchReadmeFromApi('octo/docs', {
+      apiUrl: apiUrl(),
+      token: 'secret',
+    });
+
+    expect(readme).toEqual({
+      content: '# Docs\n\nHello.',
+      path: 'docs/README.md',
+      branch: 'release/2.x',
+    });
+    expect(requests.map((request) => request.path)).toEqual([
+      '/api/repos/octo/docs/readme',
+    ]);
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer secret');
+    expect(requests[0].headers.get('Accept')).toBe(
+      'application/vnd.github+json'
+    );
+  });
+
+  test('revalidates an expired README with its ETag', async () => {
+    const options = {
+      apiUrl: apiUrl(),
+      rawUrl: rawUrl(),
+      cacheDir,
+      cacheExpiry: 50,
+    };
+    const first = await resolveReadme('octo/docs', options);
+
+    // 有効期間内はリクエストしない
+    expect(await resolveReadme('octo/docs', options)).toEqual(first);
+    expect(requests).toHaveLength(1);
+
+    // 有効期間が過ぎるまで待つ
+    await Bun.sleep(100);
+    const revalidated = await resolveReadme('octo/docs', options);
+
+    expect(revalidated).toEqual(first);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].headers.get('If-None-Match')).toBeNull();
+    expect(requests[1].headers.get('If-None-Match')).toBe('"v1"');
+  });
+
+  test('reports a missing README', async () => {
+    expect(
+      await fetchReadmeFromApi('octo/missing', { apiUrl: apiUrl() })
+    ).toBeNull();
+
+    const readme = await resolveReadme('octo/missing', {
+      apiUrl: apiUrl(),
+      rawUrl: rawUrl(),
+      cacheDir,
+    });
+
+    expect(readme).toEqual({ content: README_NOT_AVAILABLE, path: '' });
+    // 存在しない README は raw URL から取得し直さず、キャッシュもしない
+    expect(requests.map((request) => request.path)).toEqual([
+      '/api/repos/octo/missing/readme',
+      '/api/repos/octo/missing/readme',
+    ]);
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+  });
+
+  test('cancels the body of a README missing on a branch', async () => {
+    let cancelled = 0;
+    const responses = [
+      new Response(
+        new ReadableStream({
+          pull() {},
+          cancel() {
+            cancelled++;
+          },
+        }),
+        { status: 404 }
+      ),
+      new Response('# Legacy README'),
+    ];
+    const fetch = spyOn(globalThis, 'fetch').mockImplementation((async () =>
+      responses.shift()!) as unknown as typeof globalThis.fetch);
+
+    try {
+      expect(await fetchReadme('octo/legacy', rawUrl())).toBe(
+        '# Legacy README'
+      );
+      expect(cancelled).toBe(1);
+    } finally {
+      fetch.mockRestore();
+    }
+  });
+
+  test('fetches the raw README without a token', async () => {
+    const readme = await resolveReadme('octo/legacy', {
+      rawUrl: rawUrl(),
+      cacheDir,
+    });
+
+    expect(readme).toEqual({ content: '# Legacy README', path: 'README.md' });
+    expect(requests.map((request) => request.path)).toEqual([
+      '/raw/octo/legacy/main/README.md',
+      '/raw/octo/legacy/master/README.md',
+    ]);
+  });
+
+  test('falls back to the raw README when the API fails', async () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {});
+    try {
+      const readme = await resolveReadme('octo/broken', {
+        apiUrl: apiUrl(),
+        rawUrl: rawUrl(),
+      });
+
+      expect(readme).toEqual({ content: '# Raw README', path: 'README.md' });
+      expect(requests.map((request) => request.path)).toEqual([
+        ...Array(DEFAULT_HTTP_OPTIONS.maxRetries + 1).fill(
+          '/api/repos/octo/broken/readme'
+        ),
+        '/raw/octo/broken/main/README.md',
+      ]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
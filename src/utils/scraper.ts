@@ -1,33 +1,90 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
 import { parseHTML } from 'linkedom';
-import { TrendingRepo } from '../types';
+import {
+  TrendingRepo,
+  TrendingDeveloper,
+  TrendPeriod,
+  Contributor,
+  ReadmeInfo,
+  ReadmeOptions,
+  ReadmeStrategy,
+  ParseCheckOptions,
+} from '../types';
 import { logger } from './logger';
+import { loadFromCache, saveToCache } from './helpers';
+import { excerptReadme } from './markdown';
+import { httpFetch } from './http';
+import {
+  RepoSelectors,
+  DeveloperSelectors,
+  REPO_SELECTOR_STRATEGIES,
+  DEVELOPER_SELECTOR_STRATEGIES,
+  isEmptyTrendingPage,
+} from './selectors';
 
 /**
- * GitHub トレンドページから情報を取得する
+ * すべての言語を対象とする指定 ("" または all) かを判定する
  */
-export async function fetchGitHubTrending(
-  timeRange: string = 'daily',
-  language: string = 'python',
-  baseUrl: string = 'https://github.com/trending'
-): Promise<TrendingRepo[]> {
+export function isAllLanguages(language: string): boolean {
+  return !language || language === 'all';
+}
+
+/**
+ * ログや説明に表示する言語の名前を返す
+ */
+export function languageLabel(language: string): string {
+  return isAllLanguages(language) ? 'all languages' : language;
+}
+
+/**
+ * 言語、期間、話し言葉のフィルターを付けたトレンドページのURLを組み立てる
+ * 言語が "" または all の場合はすべての言語のページになる
+ */
+export function buildTrendingUrl(
+  baseUrl: string,
+  language: string,
+  timeRange: string,
+  spokenLanguage?: string
+): string {
   let url = baseUrl;
 
-  if (language && language !== 'all') {
+  if (!isAllLanguages(language)) {
     url += `/${encodeURIComponent(language)}`;
   }
 
+  const params = new URLSearchParams();
+
   if (timeRange && ['daily', 'weekly', 'monthly'].includes(timeRange)) {
-    url += `?since=${timeRange}`;
+    params.set('since', timeRange);
+  }
+
+  if (spokenLanguage) {
+    params.set('spoken_language_code', spokenLanguage);
   }
 
+  const query = params.toString();
+  return query ? `${url}?${query}` : url;
+}
+
+/**
+ * GitHub トレンドページから情報を取得する
+ */
+export async function fetchGitHubTrending(
+  timeRange: string = 'daily',
+  language: string = 'python',
+  baseUrl: string = 'https://github.com/trending',
+  spokenLanguage?: string,
+  check: ParseCheckOptions = {}
+): Promise<TrendingRepo[]> {
+  const url = buildTrendingUrl(baseUrl, language, timeRange, spokenLanguage);
+
   logger.info(`Fetching trending repositories from: ${url}`);
 
   try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'GitHub-Trend-RSS-Generator/1.0',
-        Accept: 'text/html',
-      },
+    const response = await httpFetch(url, {
+      headers: { Accept: 'text/html' },
     });
 
     if (!response.ok) {
@@ -37,7 +94,9 @@ export async function fetchGitHubTrending(
     }
 
     const html = await response.text();
-    return parseTrendingRepos(html);
+    const result = parseTrendingPage(html, timeRange);
+    checkParseResult(html, result, url, check);
+    return result.items;
   } catch (error: any) {
     logger.error(`Error fetching GitHub trending: ${error.message}`);
     throw error;
@@ -45,84 +104,217 @@ export async function fetchGitHubTrending(
 }
 
 /**
- * HTML から必要な情報を抽出する
+ * "1,234" や "1.2k" のような表示用の数値を数値に変換する
+ * 桁区切り (カンマ、ピリオド、空白、アポストロフィ) と k/m の接尾辞に対応する
  */
-export function parseTrendingRepos(html: string): TrendingRepo[] {
-  try {
-    const { document } = parseHTML(html);
-    const repos: TrendingRepo[] = [];
+export function parseCount(text: string): number {
+  const match = text
+    .replace(/\u00a0/g, ' ')
+    .match(/(\d[\d.,\s']*)\s*([kKmM])?/);
+  if (!match) {
+    return 0;
+  }
 
-    // リポジトリ一覧を取得
-    const repoElements = document.querySelectorAll('article.Box-row');
+  const numeric = match[1].trim();
+  const suffix = match[2]?.toLowerCase();
 
-    if (repoElements.length === 0) {
-      logger.warn(
-        'No repository elements found in the HTML. The GitHub page structure might have changed.'
-      );
+  if (suffix) {
+    // 接尾辞付きの場合は区切り文字を小数点として扱う (例: "1.2k", "1,2k")
+    const value = parseFloat(numeric.replace(/[\s']/g, '').replace(',', '.'));
+    return Math.round(value * (suffix === 'k' ? 1000 : 1000000));
+  }
+
+  // 3桁ごとの区切り文字を取り除く (例: "1,234", "1.234", "1 234")
+  if (/^\d{1,3}([.,\s']\d{3})+$/.test(numeric)) {
+    return parseInt(numeric.replace(/[.,\s']/g, ''), 10);
+  }
+
+  return Math.round(parseFloat(numeric.replace(',', '.')));
+}
+
+/**
+ * "56 stars today" のような表示から対象期間を判定する
+ * 判定できない場合は timeRange から決める
+ */
+export function parsePeriod(text: string, timeRange?: string): TrendPeriod {
+  const normalized = text.toLowerCase();
+  if (normalized.includes('week')) return 'week';
+  if (normalized.includes('month')) return 'month';
+  if (normalized.includes('today') || normalized.includes('day')) return 'day';
+
+  return timeRange === 'weekly'
+    ? 'week'
+    : timeRange === 'monthly'
+      ? 'month'
+      : 'day';
+}
+
+/**
+ * トレンドページの解析結果
+ */
+export interface ParseResult<T> {
+  items: T[];
+  rows: number; // セレクターに一致した要素の数 (解析に失敗した要素を含む)
+  version?: string; // 解析に使ったセレクターのバージョン
+}
+
+// 期間中の Star 数の表示 (例: 56 stars today)
+const PERIOD_STARS_PATTERN = /stars? (today|this week|this month)/i;
+
+// linkedom が解析した HTML の文書
+type HtmlDocument = ReturnType<typeof parseHTML>['document'];
+
+/**
+ * セレクターに一致する要素のうち、他の一致する要素の中にないものを返す
+ */
+function selectRows(document: HtmlDocument, selector: string): Element[] {
+  return Array.from(document.querySelectorAll(selector)).filter(
+    (row) => !row.parentElement?.closest(selector)
+  );
+}
+
+/**
+ * 要素のテキストを返す (要素がない場合は空文字列)
+ */
+function textOf(element: Element | null | undefined): string {
+  return element?.textContent?.trim() || '';
+}
+
+/**
+ * 1件分の要素からリポジトリの情報を抽出する
+ * @returns リポジトリ名のリンクが見つからない場合は null
+ */
+function parseRepoRow(
+  row: Element,
+  selectors: RepoSelectors,
+  timeRange?: string
+): Omit<TrendingRepo, 'rank'> | null {
+  // リポジトリ名とURL
+  const repoPath = row
+    .querySelector(selectors.name)
+    ?.getAttribute('href')
+    ?.trim()
+    .replace(/\/$/, '');
+  if (!repoPath || !/^\/[^/]+\/[^/]+$/.test(repoPath)) return null;
+
+  const name = repoPath.substring(1); // 先頭の / を削除
+  const url = `https://github.com${repoPath}`;
+  const [owner, repoName] = name.split('/');
+
+  const description = textOf(row.querySelector(selectors.description));
+  const language = textOf(row.querySelector(selectors.language));
+  const stars = textOf(row.querySelector(selectors.stars));
+  const forks = textOf(row.querySelector(selectors.forks));
+
+  // 期間中の Star 数 (セレクターの要素が Star ボタンなどの場合は文言から探す)
+  let todayStars = textOf(row.querySelector(selectors.periodStars));
+  if (!PERIOD_STARS_PATTERN.test(todayStars)) {
+    const element = Array.from(row.querySelectorAll('span')).find((span) =>
+      PERIOD_STARS_PATTERN.test(textOf(span))
+    );
+    todayStars = textOf(element);
+  }
+
+  // "Built by" のコントリビューター
+  const contributors: Contributor[] = [];
+  row.querySelectorAll(selectors.avatars).forEach((avatar) => {
+    const login =
+      avatar.getAttribute('alt')?.trim().replace(/^@/, '') ||
+      avatar.parentElement?.getAttribute('href')?.replace(/^\//, '') ||
+      '';
+    const avatarUrl = avatar.getAttribute('src') || '';
+    if (login && avatarUrl) {
+      contributors.push({ login, avatarUrl });
     }
+  });
 
-    repoElements.forEach((repo) => {
-      try {
-        // リポジトリ名とURL
-        const nameElement = repo.querySelector('h2 a');
-        if (!nameElement) return;
+  // オーナーのアバター (Built by に含まれていれば同じ画像をサイズ指定なしで使う)
+  const ownerContributor = contributors.find(
+    (contributor) => contributor.login === owner
+  );
+  const avatarUrl = ownerContributor
+    ? ownerContributor.avatarUrl.split('?')[0]
+    : `https://github.com/${owner}.png`;
 
-        const repoPath = nameElement.getAttribute('href')?.trim();
-        if (!repoPath) return;
+  return {
+    name,
+    owner,
+    repoName,
+    url,
+    description,
+    language,
+    stars,
+    forks,
+    todayStars,
+    starCount: parseCount(stars),
+    forkCount: parseCount(forks),
+    periodStars: parseCount(todayStars),
+    period: parsePeriod(todayStars, timeRange),
+    avatarUrl,
+    contributors,
+    readme: '', // 初期値は空文字列
+  };
+}
 
-        const name = repoPath.substring(1); // 先頭の / を削除
-        const url = `https://github.com${repoPath}`;
+/**
+ * セレクターのバージョンを順に試してトレンドページを解析する
+ * 1件以上解析できた最初のバージョンの結果を返す
+ */
+function parseWithStrategies<T, S extends { version: string; row: string }>(
+  html: string,
+  strategies: S[],
+  parseRow: (row: Element, selectors: S) => Omit<T, 'rank'> | null,
+  label: string
+): ParseResult<T> {
+  const { document } = parseHTML(html);
+  let rows = 0;
 
-        // 説明
-        const descriptionElement = repo.querySelector('p');
-        const description = descriptionElement
-          ? descriptionElement.textContent?.trim() || ''
-          : '';
+  for (const [index, selectors] of strategies.entries()) {
+    const elements = selectRows(document, selectors.row);
+    rows = Math.max(rows, elements.length);
 
-        // 言語
-        const languageElement = repo.querySelector(
-          '[itemprop="programmingLanguage"]'
-        );
-        const language = languageElement
-          ? languageElement.textContent?.trim() || ''
-          : '';
-
-        // Star 数
-        const starsElement = repo.querySelector('a[href$="/stargazers"]');
-        const stars = starsElement
-          ? starsElement.textContent?.trim() || ''
-          : '';
-
-        // Fork 数
-        const forksElement = repo.querySelector('a[href$="/forks"]');
-        const forks = forksElement
-          ? forksElement.textContent?.trim() || ''
-          : '';
-
-        // 今日の Star 数
-        const todayStarsElement = repo.querySelector(
-          '.d-inline-block.float-sm-right'
-        );
-        const todayStars = todayStarsElement
-          ? todayStarsElement.textContent?.trim() || ''
-          : '';
-
-        repos.push({
-          name,
-          url,
-          description,
-          language,
-          stars,
-          forks,
-          todayStars,
-          readme: '', // 初期値は空文字列
-        });
+    const items: T[] = [];
+    elements.forEach((element) => {
+      try {
+        const item = parseRow(element, selectors);
+        if (item) {
+          items.push({ ...item, rank: items.length + 1 } as T);
+        }
       } catch (error: any) {
-        logger.warn(`Error parsing repository: ${error.message}`);
+        logger.warn(`Error parsing ${label}: ${error.message}`);
       }
     });
 
-    return repos;
+    if (items.length > 0) {
+      if (index > 0) {
+        logger.warn(
+          `Parsed ${label} elements with the fallback selectors "${selectors.version}". The GitHub page structure might have changed.`
+        );
+      }
+      return { items, rows: elements.length, version: selectors.version };
+    }
+  }
+
+  logger.warn(
+    `No ${label} elements found in the HTML. The GitHub page structure might have changed.`
+  );
+  return { items: [], rows };
+}
+
+/**
+ * トレンドページの HTML からリポジトリの情報を抽出する
+ */
+export function parseTrendingPage(
+  html: string,
+  timeRange?: string
+): ParseResult<TrendingRepo> {
+  try {
+    return parseWithStrategies<TrendingRepo, RepoSelectors>(
+      html,
+      REPO_SELECTOR_STRATEGIES,
+      (row, selectors) => parseRepoRow(row, selectors, timeRange),
+      'repository'
+    );
   } catch (error: any) {
     logger.error(`Error parsing trending repositories: ${error.message}`);
     throw error;
@@ -130,82 +322,357 @@ export function parseTrendingRepos(html: string): TrendingRepo[] {
 }
 
 /**
- * リポジトリのREADME内容を取得する
+ * HTML から必要な情報を抽出する
  */
-export async function fetchReadme(
-  repoName: string,
-  maxRetries = 3
-): Promise<string> {
-  const mainReadmeUrl = `https://raw.githubusercontent.com/${repoName}/main/README.md`;
-  const masterReadmeUrl = `https://raw.githubusercontent.com/${repoName}/master/README.md`;
+export function parseTrendingRepos(
+  html: string,
+  timeRange?: string
+): TrendingRepo[] {
+  return parseTrendingPage(html, timeRange).items;
+}
+
+/**
+ * 解析結果がページの構造の変更を示していないか確認する
+ * 1件もない (トレンドがないことを示すページを除く)、minItems 件未満、または
+ * 一致した要素の半分以上を解析できなかった場合は HTML を保存してエラーにする
+ * (エラーにすることで既存のフィードを上書きしない)
+ */
+export function checkParseResult(
+  html: string,
+  result: ParseResult<unknown>,
+  url: string,
+  options: ParseCheckOptions = {}
+): void {
+  if (isEmptyTrendingPage(html)) {
+    return;
+  }
+
+  const count = result.items.length;
+  const minItems = options.minItems ?? 1;
+  let problem: string | undefined;
+  if (count < minItems) {
+    problem = `parsed ${count} item(s), expected at least ${minItems}`;
+  } else if (count < result.rows / 2) {
+    problem = `parsed only ${count} of ${result.rows} item(s)`;
+  }
+  if (!problem) {
+    return;
+  }
 
-  const fetchWithRetry = async (
-    url: string,
-    retries: number
-  ): Promise<string> => {
+  let saved = '';
+  if (options.debugDir) {
+    const filePath = path.join(
+      options.debugDir,
+      `${new Date().toISOString().replace(/[:.]/g, '-')}_${url
+        .replace(/^https?:\/\//, '')
+        .replace(/[^a-zA-Z0-9]+/g, '_')}.html`
+    );
     try {
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'GitHub-Trend-RSS-Generator/1.0',
-        },
-      });
+      fs.mkdirSync(options.debugDir, { recursive: true });
+      fs.writeFileSync(filePath, html);
+      saved = ` Saved the page to ${filePath}.`;
+    } catch (error: any) {
+      logger.warn(`Could not save the page to ${filePath}: ${error.message}`);
+    }
+  }
 
-      if (response.ok) {
-        return await response.text();
-      }
+  throw new Error(
+    `Unexpected page structure at ${url}: ${problem}. The GitHub page structure might have changed.${saved}`
+  );
+}
 
-      if (retries <= 0) {
-        throw new Error(`Failed to fetch README: ${response.status}`);
-      }
+/**
+ * GitHub トレンド開発者ページから情報を取得する
+ */
+export async function fetchGitHubTrendingDevelopers(
+  timeRange: string = 'daily',
+  language: string = '',
+  baseUrl: string = 'https://github.com/trending',
+  check: ParseCheckOptions = {}
+): Promise<TrendingDeveloper[]> {
+  const url = buildTrendingUrl(`${baseUrl}/developers`, language, timeRange);
 
-      // エクスポネンシャルバックオフ
-      const delay = Math.pow(2, maxRetries - retries) * 1000;
-      logger.warn(`Retrying in ${delay}ms... (${retries} retries left)`);
-      await new Promise((resolve) => setTimeout(resolve, delay));
+  logger.info(`Fetching trending developers from: ${url}`);
 
-      return fetchWithRetry(url, retries - 1);
-    } catch (error: any) {
-      if (retries <= 0) {
-        throw error;
-      }
+  try {
+    const response = await httpFetch(url, {
+      headers: { Accept: 'text/html' },
+    });
 
-      // エクスポネンシャルバックオフ
-      const delay = Math.pow(2, maxRetries - retries) * 1000;
-      logger.warn(
-        `Network error. Retrying in ${delay}ms... (${retries} retries left)`
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch GitHub trending developers page: ${response.status} ${response.statusText}`
       );
-      await new Promise((resolve) => setTimeout(resolve, delay));
-
-      return fetchWithRetry(url, retries - 1);
     }
+
+    const html = await response.text();
+    const result = parseTrendingDevelopersPage(html);
+    checkParseResult(html, result, url, check);
+    return result.items;
+  } catch (error: any) {
+    logger.error(`Error fetching GitHub trending developers: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * 1件分の要素から開発者の情報を抽出する
+ * @returns プロフィールへのリンクが見つからない場合は null
+ */
+function parseDeveloperRow(
+  row: Element,
+  selectors: DeveloperSelectors
+): Omit<TrendingDeveloper, 'rank'> | null {
+  // 表示名とプロフィールURL
+  const nameElement = row.querySelector(selectors.name);
+  const profilePath = nameElement?.getAttribute('href')?.trim();
+  if (!nameElement || !profilePath || !/^\/[^/]+$/.test(profilePath)) {
+    return null;
+  }
+
+  // ユーザー名 (表示名と別に表示される場合はそちらを優先)
+  const login =
+    textOf(row.querySelector(selectors.login)) || profilePath.substring(1);
+  const name = textOf(nameElement) || login;
+
+  // アバター
+  const avatarUrl =
+    row.querySelector(selectors.avatar)?.getAttribute('src')?.split('?')[0] ||
+    `https://github.com/${login}.png`;
+
+  // 人気のリポジトリ (行の article の中にネストされた article に表示される)
+  const popularRepoPath = row
+    .querySelector(selectors.popularRepo)
+    ?.getAttribute('href')
+    ?.trim();
+
+  return {
+    name,
+    login,
+    url: `https://github.com${profilePath}`,
+    avatarUrl,
+    popularRepo: popularRepoPath
+      ? {
+          name: popularRepoPath.substring(1),
+          url: `https://github.com${popularRepoPath}`,
+          description: textOf(
+            row.querySelector(selectors.popularRepoDescription)
+          ),
+        }
+      : undefined,
   };
+}
 
+/**
+ * トレンド開発者ページの HTML から開発者の情報を抽出する
+ */
+export function parseTrendingDevelopersPage(
+  html: string
+): ParseResult<TrendingDeveloper> {
   try {
-    logger.info(`Fetching README for ${repoName} from main branch`);
-    return await fetchWithRetry(mainReadmeUrl, maxRetries);
-  } catch (mainError) {
+    return parseWithStrategies<TrendingDeveloper, DeveloperSelectors>(
+      html,
+      DEVELOPER_SELECTOR_STRATEGIES,
+      parseDeveloperRow,
+      'developer'
+    );
+  } catch (error: any) {
+    logger.error(`Error parsing trending developers: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * トレンド開発者ページの HTML から必要な情報を抽出する
+ */
+export function parseTrendingDevelopers(html: string): TrendingDeveloper[] {
+  return parseTrendingDevelopersPage(html).items;
+}
+
+// GitHub REST API のデフォルトのベースURL
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+// README のファイルを直接取得する raw.githubusercontent.com のデフォルトのベースURL
+export const DEFAULT_RAW_URL = 'https://raw.githubusercontent.com';
+
+// README が取得できなかった場合に表示する文字列
+export const README_NOT_AVAILABLE =
+  'README not available. Either the repository does not have a README or it could not be accessed.';
+
+// README のキャッシュのデフォルトの有効期間 (1日)
+export const DEFAULT_README_CACHE_EXPIRY = 86400000;
+
+/**
+ * キャッシュに保存する README の参照
+ * 本文は内容のハッシュをキーにして別に保存し、同じ README は1つだけ保存する
+ */
+interface CachedReadmeRef {
+  etag?: string;
+  hash: string; // 本文 (blob_<hash>) の SHA-256
+  path: string;
+  branch?: string;
+}
+
+function readmeCacheKey(repoName: string): string {
+  return `readme_${repoName.replace(/[^a-zA-Z0-9]/g, '_')}`;
+}
+
+/**
+ * キャッシュから README とその ETag を読み込む
+ */
+function loadCachedReadme(
+  repoName: string,
+  cacheDir: string,
+  maxAge: number
+): { etag?: string; readme: ReadmeInfo } | null {
+  const ref = loadFromCache<CachedReadmeRef>(
+    readmeCacheKey(repoName),
+    maxAge,
+    cacheDir
+  );
+  if (!ref) {
+    return null;
+  }
+
+  // 本文だけがエビクションで削除されている場合はキャッシュなしとして扱う
+  const content = loadFromCache<string>(`blob_${ref.hash}`, Infinity, cacheDir);
+  if (content === null) {
+    return null;
+  }
+  return {
+    etag: ref.etag,
+    readme: { content, path: ref.path, branch: ref.branch },
+  };
+}
+
+/**
+ * README の本文と参照をキャッシュに保存する
+ */
+function saveCachedReadme(
+  repoName: string,
+  readme: ReadmeInfo,
+  cacheDir: string,
+  etag?: string
+): void {
+  const hash = crypto.createHash('sha256').update(readme.content).digest('hex');
+  saveToCache(`blob_${hash}`, readme.content, cacheDir);
+  saveToCache<CachedReadmeRef>(
+    readmeCacheKey(repoName),
+    { etag, hash, path: readme.path, branch: readme.branch },
+    cacheDir
+  );
+}
+
+/**
+ * GitHub API へのリクエストヘッダーを生成する
+ * 環境変数 GITHUB_TOKEN が設定されている場合は認証付きでリクエストする
+ */
+function githubApiHeaders(
+  token: string | undefined = process.env.GITHUB_TOKEN
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+}
+
+/**
+ * GitHub API からリポジトリのライセンスとトピックを取得する
+ */
+export async function fetchRepoMetadata(
+  repoName: string,
+  apiUrl: string = DEFAULT_GITHUB_API_URL,
+  token?: string
+): Promise<{ license?: string; topics: string[] }> {
+  const url = `${apiUrl.replace(/\/+$/, '')}/repos/${repoName}`;
+  const headers = githubApiHeaders(token);
+
+  logger.info(`Fetching metadata for ${repoName}`);
+
+  try {
+    const response = await httpFetch(url, { headers });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch repository metadata: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data = (await response.json()) as {
+      license?: { spdx_id?: string } | null;
+      topics?: string[];
+    };
+    const license = data.license?.spdx_id;
+
+    return {
+      // ライセンスが判別できない場合 GitHub は NOASSERTION を返す
+      license: license && license !== 'NOASSERTION' ? license : undefined,
+      topics: data.topics || [],
+    };
+  } catch (error: any) {
+    logger.error(`Error fetching metadata for ${repoName}: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * リポジトリのREADME内容を取得する
+ * main ブランチ、master ブランチの順に raw.githubusercontent.com から取得する
+ */
+export async function fetchReadme(
+  repoName: string,
+  rawUrl: string = DEFAULT_RAW_URL
+): Promise<string> {
+  for (const branch of ['main', 'master']) {
+    const url = `${rawUrl.replace(/\/+$/, '')}/${repoName}/${branch}/README.md`;
+    logger.info(`Fetching README for ${repoName} from ${branch} branch`);
+
     try {
-      logger.info(`Fetching README for ${repoName} from master branch`);
-      return await fetchWithRetry(masterReadmeUrl, maxRetries);
-    } catch (masterError: any) {
-      logger.error(
-        `Error fetching README for ${repoName}: ${masterError.message}`
+      const response = await httpFetch(url);
+      if (response.ok) {
+        return await response.text();
+      }
+      // 404 の場合は再試行せずに次のブランチを試す (読まない本文は破棄して接続を解放する)
+      await response.body?.cancel();
+      logger.info(
+        `README for ${repoName} not available on ${branch} branch (${response.status})`
       );
-      return 'README not available. Either the repository does not have a README or it could not be accessed.';
+    } catch (error: any) {
+      logger.warn(`Error fetching README for ${repoName}: ${error.message}`);
     }
   }
+
+  logger.warn(`No README found for ${repoName}`);
+  return README_NOT_AVAILABLE;
 }
 
 /**
  * README のサイズが大きすぎる場合に要約する
  * @param readme README の内容
  * @param maxLength 最大文字数
+ * @param strategy 要約の方法 (full: そのまま, truncate: 切り詰め, excerpt: 抜粋, none: 含めない)
  * @returns 要約された README
  */
 export function summarizeReadme(
   readme: string,
-  maxLength: number = 10000
+  maxLength: number = 10000,
+  strategy: ReadmeStrategy = 'truncate'
 ): string {
+  if (strategy === 'none') {
+    return '';
+  }
+
+  if (strategy === 'full') {
+    return readme;
+  }
+
+  if (strategy === 'excerpt') {
+    return excerptReadme(readme, maxLength);
+  }
+
   if (readme.length <= maxLength) {
     return readme;
   }
@@ -217,3 +684,140 @@ export function summarizeReadme(
     '\n\n... [README content truncated due to size. Visit the repository for the complete README] ...'
   );
 }
+
+/**
+ * html_url (https://github.com/{owner}/{repo}/blob/{ref}/{path}) からブランチ名を取り出す
+ */
+function parseReadmeBranch(htmlUrl: string, readmePath: string) {
+  const marker = '/blob/';
+  const index = htmlUrl.indexOf(marker);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const rest = decodeURI(htmlUrl.substring(index + marker.length));
+  return rest.endsWith(`/${readmePath}`)
+    ? rest.substring(0, rest.length - readmePath.length - 1)
+    : rest.split('/')[0];
+}
+
+/**
+ * GitHub API (GET /repos/{owner}/{repo}/readme) から README を取得する
+ * ETag をキャッシュに保存し、変更がなければ 304 を受けてキャッシュの内容を返す
+ * @returns README が存在しない場合は null
+ */
+export async function fetchReadmeFromApi(
+  repoName: string,
+  options: ReadmeOptions = {}
+): Promise<ReadmeInfo | null> {
+  const apiUrl = options.apiUrl || DEFAULT_GITHUB_API_URL;
+  const url = `${apiUrl.replace(/\/+$/, '')}/repos/${repoName}/readme`;
+  // 有効期間の切れたキャッシュも ETag による再検証に使う
+  const cached = options.cacheDir
+    ? loadCachedReadme(repoName, options.cacheDir, Infinity)
+    : null;
+
+  const headers = githubApiHeaders(options.token);
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+
+  logger.info(`Fetching README for ${repoName} from ${url}`);
+
+  const response = await httpFetch(url, { headers });
+
+  if (response.status === 304 && cached) {
+    logger.info(`README for ${repoName} not modified (ETag ${cached.etag})`);
+    if (options.cacheDir) {
+      saveCachedReadme(repoName, cached.readme, options.cacheDir, cached.etag);
+    }
+    return cached.readme;
+  }
+
+  if (response.status === 404) {
+    logger.info(`Repository ${repoName} has no README`);
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch README from API: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const data = (await response.json()) as {
+    path: string;
+    content: string;
+    encoding: string;
+    html_url?: string;
+  };
+  const readme: ReadmeInfo = {
+    content: Buffer.from(
+      data.content,
+      data.encoding === 'base64' ? 'base64' : 'utf8'
+    ).toString('utf8'),
+    path: data.path,
+    branch: data.html_url
+      ? parseReadmeBranch(data.html_url, data.path)
+      : undefined,
+  };
+
+  if (options.cacheDir) {
+    saveCachedReadme(
+      repoName,
+      readme,
+      options.cacheDir,
+      response.headers.get('etag') || undefined
+    );
+  }
+
+  return readme;
+}
+
+/**
+ * リポジトリの README を取得する
+ * 有効期間内のキャッシュがあればそれを返す。トークンまたはカスタムの API URL が
+ * 設定されている場合は GitHub API を使い、それ以外の場合や API が失敗した場合は
+ * raw.githubusercontent.com から取得する
+ */
+export async function resolveReadme(
+  repoName: string,
+  options: ReadmeOptions = {}
+): Promise<ReadmeInfo> {
+  if (options.cacheDir) {
+    const cached = loadCachedReadme(
+      repoName,
+      options.cacheDir,
+      options.cacheExpiry ?? DEFAULT_README_CACHE_EXPIRY
+    );
+    if (cached) {
+      logger.info(`Using cached README for ${repoName}`);
+      return cached.readme;
+    }
+  }
+
+  const token = options.token ?? process.env.GITHUB_TOKEN;
+  const useApi =
+    !!token || (!!options.apiUrl && options.apiUrl !== DEFAULT_GITHUB_API_URL);
+
+  if (useApi) {
+    try {
+      const readme = await fetchReadmeFromApi(repoName, { ...options, token });
+      return readme || { content: README_NOT_AVAILABLE, path: '' };
+    } catch (error: any) {
+      logger.warn(
+        `Error fetching README for ${repoName} from API, falling back to raw URLs: ${error.message}`
+      );
+    }
+  }
+
+  const readme = {
+    content: await fetchReadme(repoName, options.rawUrl),
+    path: 'README.md',
+  };
+  // 取得できなかった場合は次回に再取得するためキャッシュしない
+  if (options.cacheDir && readme.content !== README_NOT_AVAILABLE) {
+    saveCachedReadme(repoName, readme, options.cacheDir);
+  }
+  return readme;
+}
@@ -0,0 +1,104 @@
+/**
+ * トレンドページのリポジトリ一覧のセレクター
+ */
+export interface RepoSelectors {
+  version: string; // 対応するページの構造の識別子
+  row: string; // 1件分の要素
+  name: string; // href が /owner/repo のリンク
+  description: string;
+  language: string;
+  stars: string;
+  forks: string;
+  periodStars: string; // "56 stars today" の表示
+  avatars: string; // "Built by" のアバター画像
+}
+
+/**
+ * トレンド開発者ページのセレクター
+ */
+export interface DeveloperSelectors {
+  version: string;
+  row: string;
+  name: string; // href が /login のリンク
+  login: string;
+  avatar: string;
+  popularRepo: string;
+  popularRepoDescription: string;
+}
+
+/**
+ * リポジトリ一覧のセレクター (新しい構造から順に試す)
+ * GitHub がマークアップを変更した場合は先頭に新しいバージョンを追加する
+ */
+export const REPO_SELECTOR_STRATEGIES: RepoSelectors[] = [
+  {
+    version: 'box-row-2020',
+    row: 'article.Box-row',
+    name: 'h2 a',
+    description: 'p',
+    language: '[itemprop="programmingLanguage"]',
+    stars: 'a[href$="/stargazers"]',
+    forks: 'a[href$="/forks"]',
+    periodStars: '.d-inline-block.float-sm-right',
+    avatars: 'img.avatar',
+  },
+  {
+    version: 'repo-list-2019',
+    row: 'ol.repo-list > li, li.repo-list-item',
+    name: 'h3 a',
+    description: 'p',
+    language: '[itemprop="programmingLanguage"]',
+    stars: 'a[href$="/stargazers"]',
+    forks: 'a[href$="/forks"], a[href$="/network"]',
+    periodStars: '.float-sm-right',
+    avatars: 'img.avatar',
+  },
+  {
+    // クラス名に依存しない構造だけのセレクター
+    version: 'generic',
+    row: 'article',
+    name: 'h1 a, h2 a, h3 a',
+    description: 'p',
+    language: '[itemprop="programmingLanguage"]',
+    stars: 'a[href$="/stargazers"]',
+    forks: 'a[href$="/forks"]',
+    periodStars: '[class*="float-"]',
+    avatars: 'img[class*="avatar"]',
+  },
+];
+
+/**
+ * トレンド開発者ページのセレクター (新しい構造から順に試す)
+ */
+export const DEVELOPER_SELECTOR_STRATEGIES: DeveloperSelectors[] = [
+  {
+    version: 'box-row-2020',
+    row: 'article.Box-row',
+    name: 'h1.h3 a, h1 a',
+    login: 'p a',
+    avatar: 'img.avatar-user, img',
+    popularRepo: 'article article h1 a',
+    // 見出しの前の "Popular repo" のラベルも .f6 のため、見出しの後の要素を使う
+    popularRepoDescription: 'article article h1 ~ .f6',
+  },
+  {
+    version: 'generic',
+    row: 'article',
+    name: 'h1 a, h2 a, h3 a',
+    login: 'p a',
+    avatar: 'img',
+    popularRepo: 'article article a',
+    popularRepoDescription: 'article article p',
+  },
+];
+
+// トレンドが1件もない場合に GitHub が表示するメッセージ
+const EMPTY_PAGE_PATTERN = /(don['’]t|do not) have any trending/i;
+
+/**
+ * トレンドが1件もないことを示すページかどうかを判定する
+ * (構造の変更で解析できなかった場合と区別するために使う)
+ */
+export function isEmptyTrendingPage(html: string): boolean {
+  return EMPTY_PAGE_PATTERN.test(html);
+}
@@ -0,0 +1,214 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TrendingRepo } from '../types';
+import { logger } from './logger';
+import {
+  renderIndexPage,
+  renderSourcePage,
+  sitePageName,
+  SiteSource,
+  writeSite,
+} from './site';
+
+function repoOf(overrides: Partial<TrendingRepo> = {}): TrendingRepo {
+  return {
+    name: 'octo/repo',
+    owner: 'octo',
+    repoName: 'repo',
+    rank: 1,
+    url: 'https://github.com/octo/repo',
+    description: 'A repository',
+    language: 'Python',
+    stars: '1,234',
+    forks: '56',
+    todayStars: '78 stars today',
+    starCount: 1234,
+    forkCount: 56,
+    periodStars: 78,
+    period: 'day',
+    avatarUrl: 'https://github.com/octo.png',
+    contributors: [],
+    readme: '',
+    ...overrides,
+  };
+}
+
+describe('renderSourcePage', () => {
+  test('escapes the repository fields', () => {
+    const html = renderSourcePage('./site', {
+      name: 'Python Daily',
+      title: 'GitHub Trending <Today>',
+      description: 'Repos & "friends"',
+      kind: 'repositories',
+      outputs: [{ format: 'rss2', path: './site/python.xml' }],
+      repos: [
+        repoOf({
+          description: '<script>alert(1)</script>',
+          url: 'https://github.com/octo/repo?a=1&b="2"',
+          summary: 'Fast & <small>',
+          readme: '# Title\n\nUses <b>bold</b> & more.',
+        }),
+      ],
+    });
+
+    expect(html).toContain('<title>GitHub Trending &lt;Today&gt;</title>');
+    expect(html).toContain('<p>Repos &amp; &quot;friends&quot;</p>');
+    expect(html).toContain('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+    expect(html).toContain(
+      'href="https://github.com/octo/repo?a=1&amp;b=&quot;2&quot;"'
+    );
+    expect(html).toContain('<p>Fast &amp; &lt;small&gt;</p>');
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<b>bold</b>');
+  });
+
+  test('links the feeds relative to the site directory', () => {
+    const html = renderSourcePage('./rss/site', {
+      name: 'Python Daily',
+      title: 'Python Daily',
+      description: '',
+      kind: 'repositories',
+      outputs: [
+        { format: 'rss2', path: './rss/python-daily.xml' },
+        { format: 'atom1', path: './rss/site/python-daily.atom' },
+        {
+          format: 'json1',
+          path: './rss/python-daily.json',
+          url: 'https://example.com/python-daily.json',
+        },
+      ],
+      repos: [],
+    });
+
+    expect(html).toContain('<a href="../python-daily.xml">RSS</a>');
+    expect(html).toContain('<a href="python-daily.atom">Atom</a>');
+    expect(html).toContain(
+      '<a href="https://example.com/python-daily.json">JSON Feed</a>'
+    );
+    expect(html).toContain('<p>No trending entries.</p>');
+  });
+
+  test('renders developers', () => {
+    const html = renderSourcePage('./site', {
+      name: 'Developers Daily',
+      title: 'Developers Daily',
+      description: '',
+      kind: 'developers',
+      outputs: [],
+      developers: [
+        {
+          rank: 1,
+          name: 'Octo <Cat>',
+          login: 'octocat',
+          url: 'https://github.com/octocat',
+          avatarUrl: 'https://github.com/octocat.png',
+          popularRepo: {
+            name: 'octocat/hello',
+            url: 'https://github.com/octocat/hello',
+            description: 'Hello & welcome',
+          },
+        },
+      ],
+    });
+
+    expect(html).toContain('>Octo &lt;Cat&gt;</a>');
+    expect(html).toContain('@octocat #1');
+    expect(html).toContain(
+      '<a href="https://github.com/octocat/hello">octocat/hello</a>'
+    );
+    expect(html).toContain('Hello &amp; welcome');
+  });
+});
+
+describe('renderIndexPage', () => {
+  test('links only the sources that have a page', () => {
+    const sources: SiteSource[] = [
+      {
+        name: 'Python Daily',
+        title: 'Python Daily',
+        description: 'Python & more',
+        kind: 'repositories',
+        outputs: [{ format: 'rss2', path: './rss/python-daily.xml' }],
+      },
+      {
+        name: 'Go Daily',
+        title: 'Go Daily',
+        description: '',
+        kind: 'repositories',
+        outputs: [{ format: 'rss2', path: './rss/go-daily.xml' }],
+      },
+    ];
+    const html = renderIndexPage('./rss', sources, new Set(['Python Daily']));
+
+    expect(html).toContain('<a href="python-daily.html">Python Daily</a>');
+    expect(html).toContain('<h2>Go Daily</h2>');
+    expect(html).toContain('<p>Python &amp; more</p>');
+    expect(html).toContain('<a href="go-daily.xml">RSS</a>');
+  });
+});
+
+describe('writeSite', () => {
+  let siteDir: string;
+
+  beforeEach(() => {
+    siteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'site-'));
+    spyOn(logger, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    fs.rmSync(siteDir, { recursive: true, force: true });
+  });
+
+  const sourceOf = (name: string, repos?: TrendingRepo[]): SiteSource => ({
+    name,
+    title: name,
+    description: `${name} feed`,
+    kind: 'repositories',
+    outputs: [{ format: 'rss2', path: path.join(siteDir, `${name}.xml`) }],
+    repos,
+  });
+
+  test('keeps the pages of the sources that were not regenerated', () => {
+    writeSite(siteDir, [
+      sourceOf('Python Daily', [repoOf({ name: 'octo/first' })]),
+      sourceOf('Go Daily', [repoOf({ name: 'octo/go' })]),
+    ]);
+    const goPage = path.join(siteDir, sitePageName('Go Daily'));
+    const previous = fs.readFileSync(goPage, 'utf8');
+
+    // 2回目は Python Daily だけを生成する
+    const written = writeSite(siteDir, [
+      sourceOf('Python Daily', [repoOf({ name: 'octo/second' })]),
+      sourceOf('Go Daily'),
+      sourceOf('Rust Daily'),
+    ]);
+
+    expect(written).toBe(2); // python-daily.html と index.html
+    expect(fs.readFileSync(goPage, 'utf8')).toBe(previous);
+    expect(
+      fs.readFileSync(path.join(siteDir, sitePageName('Python Daily')), 'utf8')
+    ).toContain('octo/second');
+    expect(fs.existsSync(path.join(siteDir, 'rust-daily.html'))).toBe(false);
+
+    const index = fs.readFileSync(path.join(siteDir, 'index.html'), 'utf8');
+    expect(index).toContain('<a href="go-daily.html">Go Daily</a>');
+    expect(index).toContain('<h2>Rust Daily</h2>');
+  });
+
+  test('does not rewrite unchanged pages', () => {
+    const sources = [sourceOf('Python Daily', [repoOf()])];
+    expect(writeSite(siteDir, sources)).toBe(2);
+    expect(writeSite(siteDir, sources)).toBe(0);
+  });
+});
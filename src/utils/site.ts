@@ -0,0 +1,255 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  FeedFormat,
+  FeedOutput,
+  SourceKind,
+  TrendingDeveloper,
+  TrendingRepo,
+} from '../types';
+import { escapeHtml, toSlug, writeFileIfChanged } from './helpers';
+import { readmeSnippet } from './markdown';
+import { README_NOT_AVAILABLE } from './scraper';
+import { logger } from './logger';
+
+// カードに表示する README の抜粋の最大文字数
+const README_SNIPPET_LENGTH = 280;
+
+const FORMAT_LABELS: Record<FeedFormat, string> = {
+  rss2: 'RSS',
+  atom1: 'Atom',
+  json1: 'JSON Feed',
+};
+
+const STYLE = `
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; background: #f6f8fa; }
+  header, main { max-width: 1080px; margin: 0 auto; padding: 16px 24px; }
+  header h1 { margin: 16px 0 4px; font-size: 28px; }
+  header p { margin: 0; color: #59636e; }
+  a { color: #0969da; text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  .subscribe a { display: inline-block; margin: 8px 8px 0 0; padding: 2px 10px; border: 1px solid #d1d9e0; border-radius: 12px; background: #fff; font-size: 13px; }
+  .sources { list-style: none; padding: 0; }
+  .sources li { margin-bottom: 12px; padding: 16px; border: 1px solid #d1d9e0; border-radius: 6px; background: #fff; }
+  .sources h2 { margin: 0 0 4px; font-size: 18px; }
+  .sources p { margin: 0; color: #59636e; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 16px; }
+  .card { padding: 16px; border: 1px solid #d1d9e0; border-radius: 6px; background: #fff; }
+  .card h2 { display: flex; align-items: center; gap: 8px; margin: 0 0 8px; font-size: 16px; word-break: break-all; }
+  .card h2 img { border-radius: 50%; }
+  .card p { margin: 0 0 8px; }
+  .rank { color: #59636e; font-weight: normal; }
+  .stats { display: flex; flex-wrap: wrap; gap: 12px; color: #59636e; font-size: 13px; }
+  .readme { color: #59636e; font-size: 13px; }
+`;
+
+/**
+ * サイトに掲載するソース
+ * repos / developers は今回の実行で生成したソースのみ指定する
+ */
+export interface SiteSource {
+  name: string;
+  title: string;
+  description: string;
+  kind: SourceKind;
+  outputs: FeedOutput[];
+  repos?: TrendingRepo[];
+  developers?: TrendingDeveloper[];
+}
+
+/**
+ * ソースのページのファイル名を返す (例: Python Daily -> python-daily.html)
+ */
+export function sitePageName(sourceName: string): string {
+  return `${toSlug(sourceName, 'feed')}.html`;
+}
+
+/**
+ * ページからフィードへのリンクを返す
+ * 公開URLがない場合はサイトのディレクトリからの相対パスにする
+ */
+function feedHref(siteDir: string, output: FeedOutput): string {
+  return (
+    output.url || path.relative(siteDir, output.path).split(path.sep).join('/')
+  );
+}
+
+/**
+ * フィードの購読リンクを HTML に変換する
+ */
+function renderSubscribeLinks(siteDir: string, outputs: FeedOutput[]): string {
+  const links = outputs.map(
+    (output) =>
+      `<a href="${escapeHtml(feedHref(siteDir, output))}">${FORMAT_LABELS[output.format]}</a>`
+  );
+  return `<p class="subscribe">${links.join('')}</p>`;
+}
+
+/**
+ * ページ全体の HTML を組み立てる
+ */
+function renderPage(title: string, header: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+${header}
+</header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * リポジトリのカードを HTML に変換する
+ */
+function renderRepoCard(repo: TrendingRepo): string {
+  const snippet =
+    repo.readme && repo.readme !== README_NOT_AVAILABLE
+      ? readmeSnippet(repo.readme, README_SNIPPET_LENGTH)
+      : '';
+  const stats = [
+    repo.language ? `<span>${escapeHtml(repo.language)}</span>` : '',
+    `<span>★ ${escapeHtml(repo.stars || '0')}</span>`,
+    `<span>Forks ${escapeHtml(repo.forks || '0')}</span>`,
+    repo.todayStars ? `<span>${escapeHtml(repo.todayStars)}</span>` : '',
+  ].filter(Boolean);
+
+  return [
+    '<article class="card">',
+    `<h2>${repo.avatarUrl ? `<img src="${escapeHtml(repo.avatarUrl)}" alt="" width="24" height="24">` : ''}<a href="${escapeHtml(repo.url)}">${escapeHtml(repo.name)}</a>${repo.rank ? ` <span class="rank">#${repo.rank}</span>` : ''}</h2>`,
+    repo.description ? `<p>${escapeHtml(repo.description)}</p>` : '',
+    `<p class="stats">${stats.join('')}</p>`,
+    repo.summary ? `<p>${escapeHtml(repo.summary)}</p>` : '',
+    snippet ? `<p class="readme">${escapeHtml(snippet)}</p>` : '',
+    '</article>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * 開発者のカードを HTML に変換する
+ */
+function renderDeveloperCard(developer: TrendingDeveloper): string {
+  const popularRepo = developer.popularRepo;
+  return [
+    '<article class="card">',
+    `<h2><img src="${escapeHtml(developer.avatarUrl)}" alt="" width="24" height="24"><a href="${escapeHtml(developer.url)}">${escapeHtml(developer.name)}</a> <span class="rank">@${escapeHtml(developer.login)} #${developer.rank}</span></h2>`,
+    popularRepo
+      ? `<p><a href="${escapeHtml(popularRepo.url)}">${escapeHtml(popularRepo.name)}</a></p>`
+      : '',
+    popularRepo?.description
+      ? `<p class="readme">${escapeHtml(popularRepo.description)}</p>`
+      : '',
+    '</article>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * ソースのページの HTML を生成する
+ */
+export function renderSourcePage(siteDir: string, source: SiteSource): string {
+  const cards =
+    source.kind === 'developers'
+      ? (source.developers || []).map(renderDeveloperCard)
+      : (source.repos || []).map(renderRepoCard);
+  const header = `<p><a href="index.html">All feeds</a></p>
+<h1>${escapeHtml(source.title)}</h1>
+<p>${escapeHtml(source.description)}</p>
+${renderSubscribeLinks(siteDir, source.outputs)}`;
+  const body =
+    cards.length > 0
+      ? `<div class="cards">
+${cards.join('\n')}
+</div>`
+      : '<p>No trending entries.</p>';
+
+  return renderPage(source.title, header, body);
+}
+
+/**
+ * すべてのソースと購読リンクの一覧のページの HTML を生成する
+ * @param pages ページが存在するソースの名前
+ */
+export function renderIndexPage(
+  siteDir: string,
+  sources: SiteSource[],
+  pages: Set<string>
+): string {
+  const items = sources.map(
+    (source) => `<li>
+<h2>${
+      pages.has(source.name)
+        ? `<a href="${escapeHtml(sitePageName(source.name))}">${escapeHtml(source.name)}</a>`
+        : escapeHtml(source.name)
+    }</h2>
+<p>${escapeHtml(source.description)}</p>
+${renderSubscribeLinks(siteDir, source.outputs)}
+</li>`
+  );
+  const header = `<h1>GitHub Trending RSS</h1>
+<p>Feeds of the trending repositories and developers on GitHub.</p>`;
+
+  return renderPage(
+    'GitHub Trending RSS',
+    header,
+    `<ul class="sources">
+${items.join('\n')}
+</ul>`
+  );
+}
+
+/**
+ * フィードの一覧とソースごとのページを静的な HTML として書き出す
+ * 今回生成していないソースのページは前回のものを残す
+ * @returns 書き込んだページの数
+ */
+export function writeSite(siteDir: string, sources: SiteSource[]): number {
+  try {
+    fs.mkdirSync(siteDir, { recursive: true });
+
+    let written = 0;
+    sources
+      .filter((source) => source.repos || source.developers)
+      .forEach((source) => {
+        const pagePath = path.join(siteDir, sitePageName(source.name));
+        if (writeFileIfChanged(pagePath, renderSourcePage(siteDir, source))) {
+          written++;
+        }
+      });
+
+    const pages = new Set(
+      sources
+        .filter((source) =>
+          fs.existsSync(path.join(siteDir, sitePageName(source.name)))
+        )
+        .map((source) => source.name)
+    );
+    if (
+      writeFileIfChanged(
+        path.join(siteDir, 'index.html'),
+        renderIndexPage(siteDir, sources, pages)
+      )
+    ) {
+      written++;
+    }
+
+    logger.info(`Site saved to ${siteDir} (${written} pages updated)`);
+    return written;
+  } catch (error: any) {
+    logger.error(`Error writing site to ${siteDir}: ${error.message}`);
+    throw error;
+  }
+}
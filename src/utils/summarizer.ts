@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import { TrendingRepo, SummaryConfig, SummaryProviderName } from '../types';
+import { loadFromCache, saveToCache, loadPromptsFromCSV } from './helpers';
+import { httpFetch } from './http';
+import { logger } from './logger';
+
+export const SUMMARY_PROVIDERS: SummaryProviderName[] = ['openai', 'stub'];
+
+// CSV にもプロンプトにも指定がない場合のプロンプトテンプレート
+export const DEFAULT_SUMMARY_PROMPT = `Explain in two or three sentences what the GitHub repository {{name}} is and why it is likely trending right now.
+
+Description: {{description}}
+Language: {{language}}
+Stars: {{stars}} ({{todayStars}})
+
+README:
+{{readme}}`;
+
+/**
+ * テキストを要約するプロバイダー
+ */
+export interface SummaryProvider {
+  readonly id: string; // キャッシュキーに使う識別子 (プロバイダーとモデル)
+  complete(prompt: string): Promise<string>;
+}
+
+/**
+ * 文字列の SHA-256 ハッシュを返す
+ */
+function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * OpenAI 互換の Chat Completions API を使うプロバイダー
+ * baseUrl をローカルのモデルサーバーに向けることでオフラインでも利用できる
+ */
+export class OpenAICompatibleProvider implements SummaryProvider {
+  readonly id: string;
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+  private maxTokens: number;
+  private timeout: number;
+
+  constructor(config: SummaryConfig) {
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(
+      /\/+$/,
+      ''
+    );
+    this.model = config.model || 'gpt-4o-mini';
+    this.apiKey = process.env[config.apiKeyEnv || 'OPENAI_API_KEY'];
+    this.maxTokens = config.maxTokens || 300;
+    this.timeout = config.timeout || 60000;
+    this.id = `openai:${this.baseUrl}:${this.model}`;
+  }
+
+  async complete(prompt: string): Promise<string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await httpFetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: this.maxTokens,
+        temperature: 0.2,
+      }),
+      timeout: this.timeout,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to summarize with ${this.model}: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data = (await response.json()) as {
+      choices?: { message?: { content?: string } }[];
+    };
+    const content = data.choices?.[0]?.message?.content?.trim();
+    if (!content) {
+      throw new Error(`Empty summary returned by ${this.model}`);
+    }
+    return content;
+  }
+}
+
+/**
+ * テスト用の決定的なプロバイダー
+ * 同じプロンプトには常に同じ要約を返し、ネットワークにはアクセスしない
+ */
+export class StubProvider implements SummaryProvider {
+  readonly id = 'stub';
+
+  async complete(prompt: string): Promise<string> {
+    const firstLine =
+      prompt
+        .split('\n')
+        .map((line) => line.trim())
+        .find((line) => line.length > 0) || '';
+    return `Stub summary ${sha256(prompt).substring(0, 8)}: ${firstLine.substring(0, 200)}`;
+  }
+}
+
+/**
+ * 設定に応じたプロバイダーを作成する
+ */
+export function createSummaryProvider(config: SummaryConfig): SummaryProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'stub':
+      return new StubProvider();
+    default:
+      throw new Error(
+        `Unsupported summary provider: ${config.provider} (expected one of ${SUMMARY_PROVIDERS.join(', ')})`
+      );
+  }
+}
+
+/**
+ * 要約に使うプロンプトテンプレートを決定する
+ * CSV が指定されている場合は ref がソース名と一致する行、ref のない行、最初の行の順に使う
+ */
+export function resolvePromptTemplate(
+  config: SummaryConfig,
+  sourceName?: string
+): string {
+  if (config.promptsPath) {
+    const prompts = loadPromptsFromCSV(config.promptsPath);
+    const matched =
+      prompts.find((prompt) => sourceName && prompt.ref === sourceName) ||
+      prompts.find((prompt) => !prompt.ref) ||
+      prompts[0];
+    if (matched) {
+      return matched.prompt;
+    }
+    logger.warn(
+      `No prompt found in ${config.promptsPath}; using the default summary prompt`
+    );
+  }
+  return config.prompt || DEFAULT_SUMMARY_PROMPT;
+}
+
+/**
+ * プロンプトテンプレートの {{field}} をリポジトリの値で置換する
+ */
+export function renderPrompt(template: string, repo: TrendingRepo): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_placeholder, field) => {
+    const value = (repo as unknown as Record<string, unknown>)[field];
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
+
+/**
+ * リポジトリの要約を生成する
+ * 結果はリポジトリ名と、README・プロンプト・プロバイダーのハッシュごとにキャッシュする
+ */
+export async function summarizeRepo(
+  repo: TrendingRepo,
+  provider: SummaryProvider,
+  template: string,
+  cacheDir?: string
+): Promise<string> {
+  const prompt = renderPrompt(template, repo);
+  const hash = sha256(`${provider.id}\n${template}\n${repo.readme}`);
+  const cacheKey = `summary_${repo.name.replace(/[^a-zA-Z0-9]/g, '_')}_${hash.substring(0, 16)}`;
+
+  if (cacheDir) {
+    const cached = loadFromCache<string>(cacheKey, Infinity, cacheDir);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  logger.info(`Summarizing ${repo.name} with ${provider.id}`);
+  const summary = await provider.complete(prompt);
+
+  if (cacheDir) {
+    saveToCache(cacheKey, summary, cacheDir);
+  }
+  return summary;
+}